@@ -0,0 +1,584 @@
+import {
+    definition,
+    isWrapper,
+    safeValidate,
+    type Input,
+    type NumberBounds,
+    type Options,
+    type Schema,
+    type Validator,
+} from "./index";
+
+/**
+ * A source of random numbers in the range [0, 1), just like `Math.random`.
+ */
+export type Random = () => number;
+
+/**
+ * Generates a value out of random numbers.
+ */
+export type Arbitrary<T> = (random: Random) => T;
+
+/**
+ * Creates a deterministic source of random numbers, so that the generated values can be reproduced from the seed.
+ * @param seed Any 32-bit integer
+ */
+export const seeded =
+    (seed: number): Random =>
+    () => {
+        // mulberry32
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
+type Generators = { generate: Arbitrary<unknown>; mutate?: (x: any, random: Random) => unknown[] };
+const registry = new WeakMap<Validator<any>, Generators>();
+
+/**
+ * Registers a generator for a validator that cannot be generated from its definition,
+ * such as a custom validator or a `filter` with a predicate that random values rarely satisfy.
+ * @example
+ * const even = register(
+ *     filter(integer(), x => x % 2 === 0),
+ *     random => 2 * Math.floor(random() * 100),
+ *     x => [x + 1],
+ * );
+ * @param validator A validator to register the generator for
+ * @param generate Generates values that the validator accepts
+ * @param [mutate] Derives values that the validator rejects from a generated value
+ * @returns The validator itself
+ */
+export const register = <T, I>(
+    validator: Validator<T, I>,
+    generate: Arbitrary<I>,
+    mutate?: (x: I, random: Random) => unknown[],
+): Validator<T, I> => {
+    registry.set(validator, { generate, mutate });
+    return validator;
+};
+
+type Context = { random: Random; depth: number; unknown: Options["unknown"] };
+
+/**
+ * Thrown when a recursive schema is nested too deep, so that a non-recursive alternative can be picked instead.
+ */
+class Overflow extends Error {
+    constructor() {
+        super("cannot generate a value for a schema that is recursive in every alternative");
+    }
+}
+
+const pick = <T>(random: Random, items: ArrayLike<T>): T => items[Math.floor(random() * items.length)]!;
+const int = (random: Random, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+const deep = (context: Context) => context.depth > 3;
+const accepts = (x: unknown, schema: Schema<any>) => safeValidate(x, schema, { copy: true }).ok;
+
+/**
+ * Generates values until the validator accepts one of them.
+ * Used for validators that the generators only approximate, such as bounded numbers, and for opaque predicates.
+ */
+const until = (validator: Validator<any>, generate: () => unknown, what: string) => {
+    for (let i = 0; i < 100; i++) {
+        let x = generate();
+        if (accepts(x, validator)) return x;
+    }
+    throw new Error(`cannot generate a value for ${what}, register a generator for it`);
+};
+
+type Pattern = string | Pattern[][] | { pattern: Pattern; min: number; max: number };
+
+const printable = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)).join("");
+const complement = (chars: string) => [...printable].filter(c => !chars.includes(c)).join("");
+const classes: Record<string, string> = {
+    d: "0123456789",
+    w: "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789_",
+    s: " \t\n",
+};
+
+/**
+ * Parses the source of a regular expression into a pattern: a string of characters to pick one of,
+ * alternatives of sequences, or a repetition. Lookarounds, backreferences and word boundaries are not supported.
+ */
+const parse = (source: string): Pattern[][] => {
+    let i = 0;
+    let unsupported = (): never => {
+        throw new Error(`cannot generate a string matching /${source}/, register a generator for it`);
+    };
+
+    let escape = () => {
+        let c = source[i++]!;
+        let lower = c.toLowerCase();
+        if (Object.hasOwn(classes, c)) return classes[c]!;
+        if (Object.hasOwn(classes, lower)) return complement(classes[lower]!);
+        if (c === "x" || (c === "u" && source[i] !== "{")) {
+            let hex = source.slice(i, (i += c === "x" ? 2 : 4));
+            return String.fromCharCode(parseInt(hex, 16));
+        }
+        if (/[1-9bBpPkcu]/.test(c)) return unsupported();
+        return ({ n: "\n", t: "\t", r: "\r", f: "\f", v: "\v", 0: "\0" } as Record<string, string>)[c] ?? c;
+    };
+
+    let set = () => {
+        let negated = source[i] === "^";
+        if (negated) i++;
+
+        let chars = "";
+        while (source[i] !== "]") {
+            if (i >= source.length) unsupported();
+            let start = source[i++] === "\\" ? escape() : source[i - 1]!;
+            if (source[i] === "-" && source[i + 1] !== "]" && start.length === 1) {
+                i++;
+                let end = source[i++] === "\\" ? escape() : source[i - 1]!;
+                for (let code = start.charCodeAt(0); code <= end.charCodeAt(0); code++)
+                    chars += String.fromCharCode(code);
+            } else {
+                chars += start;
+            }
+        }
+        i++;
+        return negated ? complement(chars) : chars;
+    };
+
+    let sequence = () => {
+        let items: Pattern[] = [];
+        while (i < source.length && source[i] !== "|" && source[i] !== ")") {
+            let c = source[i++]!;
+            let atom: Pattern;
+            if (c === "(") {
+                if (source[i] === "?") {
+                    let group = /^\?(:|<[a-z_$][\w$]*>)/i.exec(source.slice(i)) ?? unsupported();
+                    i += group[0].length;
+                }
+                atom = alternatives();
+                if (source[i++] !== ")") unsupported();
+            } else if (c === "[") {
+                atom = set();
+            } else if (c === ".") {
+                atom = printable;
+            } else if (c === "^" || c === "$") {
+                continue;
+            } else {
+                atom = c === "\\" ? escape() : c;
+            }
+
+            let quantifier = /^(?:([*+?])|\{(\d+)(,(\d*))?\})\??/.exec(source.slice(i));
+            if (quantifier) {
+                let [match, symbol, min, range, max] = quantifier;
+                i += match.length;
+                atom = symbol
+                    ? { pattern: atom, min: symbol === "+" ? 1 : 0, max: symbol === "?" ? 1 : Infinity }
+                    : { pattern: atom, min: +min!, max: range ? (max ? +max : Infinity) : +min! };
+            }
+            items.push(atom);
+        }
+        return items;
+    };
+
+    let alternatives = () => {
+        let options = [sequence()];
+        while (source[i] === "|") {
+            i++;
+            options.push(sequence());
+        }
+        return options;
+    };
+
+    let result = alternatives();
+    if (i < source.length) unsupported();
+    return result;
+};
+
+const produce = (pattern: Pattern, random: Random): string =>
+    typeof pattern === "string"
+        ? pattern && pick(random, pattern)
+        : Array.isArray(pattern)
+          ? pick(random, pattern)
+                .map(item => produce(item, random))
+                .join("")
+          : Array.from({ length: int(random, pattern.min, Math.min(pattern.max, pattern.min + 3)) }, () =>
+                produce(pattern.pattern, random),
+            ).join("");
+
+const patterns = new WeakMap<RegExp, Pattern[][]>();
+
+const text = (random: Random, min = 0, max = min + 8) =>
+    Array.from({ length: int(random, min, max) }, () => pick(random, "abcxyzABC019 _-")).join("");
+
+const numeric = (random: Random, bounds: NumberBounds, integer: boolean) => {
+    let { min, max, exclusiveMin, exclusiveMax, multipleOf } = bounds;
+    let lo = Math.max(min ?? -Infinity, exclusiveMin ?? -Infinity);
+    let hi = Math.min(max ?? Infinity, exclusiveMax ?? Infinity);
+    if (lo === -Infinity) lo = hi === Infinity ? -1000 : hi - 1000;
+    if (hi === Infinity) hi = lo + 1000;
+
+    let step = multipleOf ?? (integer ? 1 : 0);
+    if (step) return int(random, Math.ceil(lo / step), Math.floor(hi / step)) * step || 0;
+    // the bounds are the usual suspects
+    return pick(random, [lo, hi, 0, lo + random() * (hi - lo)]);
+};
+
+const generate = (schema: Schema<any>, context: Context): any => {
+    let { random } = context;
+    let nested = { ...context, depth: context.depth + 1 };
+
+    if (typeof schema === "function") {
+        let registered = registry.get(schema);
+        if (registered) return registered.generate(random);
+
+        let def = definition(schema);
+        switch (def?.kind) {
+            case "string": {
+                let { regex, format } = def;
+                let { minLength, maxLength } = def.bounds ?? {};
+                if (format) return format.example;
+                if (!regex) return until(schema, () => text(random, minLength, maxLength), "string");
+
+                let pattern = patterns.get(regex) ?? parse(regex.source);
+                patterns.set(regex, pattern);
+                return until(schema, () => produce(pattern, random), `string matching ${regex}`);
+            }
+            case "number":
+            case "integer": {
+                let { bounds = {}, kind } = def;
+                return until(schema, () => numeric(random, bounds, kind === "integer"), kind);
+            }
+            case "boolean":
+                return random() < 0.5;
+            case "date":
+                return new Date(int(random, 0, 2e12));
+            case "bigint":
+                return BigInt(int(random, -1e6, 1e6));
+            case "symbol":
+                return Symbol();
+            case "typedArray":
+                return new ((def.type ?? Uint8Array) as new (length: number) => unknown)(int(random, 0, 4));
+            case "any":
+                return pick(random, [null, true, 0, 1.5, "", "a", [], {}]);
+            case "maybe":
+            case "nullable":
+            case "nullish": {
+                let missing = { maybe: [undefined], nullable: [null], nullish: [null, undefined] }[def.kind];
+                return deep(context) || random() < 0.25 ? pick(random, missing) : generate(def.schema, context);
+            }
+            case "struct":
+                return generate(def.schema, { ...context, unknown: def.options?.unknown ?? context.unknown });
+            case "record": {
+                let y: Record<string, unknown> = {};
+                for (let i = deep(context) ? 0 : int(random, 0, 3); i--; ) {
+                    let key = generate(def.key, nested);
+                    if (typeof key === "string") y[key] = generate(def.value, nested);
+                }
+                return y;
+            }
+            case "mapOf":
+                return new Map(
+                    Array.from({ length: deep(context) ? 0 : int(random, 0, 3) }, () => [
+                        generate(def.key, nested),
+                        generate(def.value, nested),
+                    ]),
+                );
+            case "setOf":
+                return new Set(
+                    Array.from({ length: deep(context) ? 0 : int(random, 0, 3) }, () => generate(def.schema, nested)),
+                );
+            case "array": {
+                let { minItems = 0, maxItems = Infinity, unique } = def.bounds ?? {};
+                let length = deep(context) ? minItems : int(random, minItems, Math.min(maxItems, minItems + 4));
+                if (!unique) return Array.from({ length }, () => generate(def.schema, nested));
+
+                let key = typeof unique === "function" ? unique : (x: unknown) => x;
+                let keys = new Set();
+                return Array.from({ length }, () => {
+                    for (let i = 0; i < 100; i++) {
+                        let item = generate(def.schema, nested);
+                        if (!keys.has(key(item))) return keys.add(key(item)) && item;
+                    }
+                    throw new Error(`cannot generate ${length} unique array items`);
+                });
+            }
+            case "tuple": {
+                let { elements, rest } = def;
+                let trailing = rest === undefined || deep(context) ? 0 : int(random, 0, 3);
+                return [
+                    ...elements.map(element => generate(element, nested)),
+                    ...Array.from({ length: trailing }, () => generate(rest, nested)),
+                ];
+            }
+            case "allOf": {
+                let { schemas } = def;
+                // objects are merged so that each part contributes its keys
+                let merge = (parts: any[]) =>
+                    parts.every(part => typeof part === "object" && part && !Array.isArray(part))
+                        ? Object.assign({}, ...parts)
+                        : pick(random, parts);
+                return until(schema, () => merge(schemas.map(part => generate(part, context))), "allOf");
+            }
+            case "oneOf": {
+                let { schemas } = def;
+                return until(schema, () => generate(pick(random, schemas), context), "oneOf");
+            }
+            case "anyOf": {
+                if (!deep(context)) return generate(pick(random, def.schemas), context);
+                // picks the first alternative that is not recursive
+                for (let alternative of def.schemas) {
+                    try {
+                        return generate(alternative, context);
+                    } catch (e) {
+                        if (!(e instanceof Overflow)) throw e;
+                    }
+                }
+                throw new Overflow();
+            }
+            case "taggedUnion":
+                return generate(def.variants[pick(random, Object.keys(def.variants))], context);
+            case "lazy":
+                if (context.depth > 12) throw new Overflow();
+                return generate(def.get(), nested);
+            case "never":
+                throw new Error("cannot generate a value for never");
+            default:
+                if (isWrapper(def)) {
+                    // wrappers such as filters may reject some values of their schema
+                    let inner = def.schema;
+                    return until(schema, () => generate(inner, context), def.kind);
+                }
+                throw new Error(
+                    `cannot generate a value for ${def ? def.kind : "a custom validator"}, register a generator for it`,
+                );
+        }
+    } else if (Array.isArray(schema)) {
+        return schema.map(element => generate(element, nested));
+    } else if (typeof schema === "object" && schema) {
+        let y: Record<string, unknown> = {};
+        for (let key of Object.keys(schema)) {
+            let value = generate(schema[key as keyof typeof schema], nested);
+            if (value !== undefined || random() < 0.5) y[key] = value;
+        }
+        return y;
+    } else {
+        return schema;
+    }
+};
+
+/**
+ * Replaces the value at the key of a shallow copy of `x` with one of the mutations of the schema.
+ */
+const replace = (x: any, key: unknown, schema: Schema<any>, context: Context): unknown[] => {
+    let candidates = near(schema, context);
+    if (!candidates.length) return [];
+
+    let value = pick(context.random, candidates);
+    if (x instanceof Map) return [new Map(x).set(key, value)];
+    let y = Array.isArray(x) ? x.slice() : { ...x };
+    y[key as string] = value;
+    return [y];
+};
+
+const near = (schema: Schema<any>, context: Context): unknown[] => {
+    let { random } = context;
+    let nested = { ...context, depth: context.depth + 1 };
+    let sample = () => generate(schema, context);
+
+    if (typeof schema === "function") {
+        let registered = registry.get(schema);
+        if (registered) return registered.mutate?.(registered.generate(random), random) ?? [];
+
+        let def = definition(schema);
+        switch (def?.kind) {
+            case "string": {
+                let { minLength, maxLength } = def.bounds ?? {};
+                return [
+                    0,
+                    null,
+                    ...(def.format ? [`${def.format.example}!`] : []),
+                    ...(minLength ? ["a".repeat(minLength - 1)] : []),
+                    ...(maxLength === undefined ? [] : ["a".repeat(maxLength + 1)]),
+                ];
+            }
+            case "number":
+            case "integer": {
+                let { min, max, exclusiveMin, exclusiveMax, multipleOf } = def.bounds ?? {};
+                let values: unknown[] = ["0", NaN, Infinity, null];
+                if (min !== undefined && min - 1 < min) values.push(min - 1);
+                if (max !== undefined && max + 1 > max) values.push(max + 1);
+                if (exclusiveMin !== undefined) values.push(exclusiveMin);
+                if (exclusiveMax !== undefined) values.push(exclusiveMax);
+                if (multipleOf) values.push(sample() + multipleOf / 2);
+                if (def.kind === "integer") values.push(sample() + 0.5);
+                return values;
+            }
+            case "boolean":
+                return ["true", 0, null];
+            case "date":
+                return [new Date(NaN), "2000-01-01", 0];
+            case "bigint":
+                return [0, "0"];
+            case "symbol":
+                return ["symbol"];
+            case "instanceOf":
+                return [Object.create(null)];
+            case "typedArray":
+                return [[0], new DataView(new ArrayBuffer(1))];
+            case "never":
+                return [null, 0];
+            case "struct":
+                return near(def.schema, { ...context, unknown: def.options?.unknown ?? context.unknown });
+            case "record": {
+                let x = sample();
+                let keys = Object.keys(x);
+                let key = keys.length ? pick(random, keys) : generate(def.key, nested);
+                return [null, [], ...(typeof key === "string" ? replace(x, key, def.value, nested) : [])];
+            }
+            case "mapOf": {
+                let x: Map<unknown, unknown> = sample();
+                let key = x.size ? pick(random, [...x.keys()]) : generate(def.key, nested);
+                return [{}, ...replace(x, key, def.value, nested)];
+            }
+            case "setOf":
+                return [[], ...near(def.schema, nested).map(item => new Set([item]))];
+            case "array": {
+                let { minItems = 0, maxItems, unique } = def.bounds ?? {};
+                let x: unknown[] = sample();
+                let values: unknown[] = [{}, ""];
+                if (minItems) values.push(x.slice(0, minItems - 1));
+                if (maxItems !== undefined) {
+                    let y = x.slice();
+                    while (y.length <= maxItems) y.push(generate(def.schema, nested));
+                    values.push(y);
+                }
+                if (unique && x.length) values.push([...x, x[0]]);
+                if (x.length) values.push(...replace(x, int(random, 0, x.length - 1), def.schema, nested));
+                return values;
+            }
+            case "tuple": {
+                let { elements, rest } = def;
+                let x: unknown[] = sample();
+                let required = elements.length;
+                while (required && accepts(undefined, elements[required - 1]!)) required--;
+
+                let values: unknown[] = [{}];
+                if (required) values.push(x.slice(0, required - 1));
+                if (rest === undefined) values.push([...x, null]);
+                if (elements.length) {
+                    let index = int(random, 0, elements.length - 1);
+                    values.push(...replace(x, index, elements[index]!, nested));
+                }
+                return values;
+            }
+            case "allOf":
+                return def.schemas.flatMap(schema => near(schema, context));
+            case "anyOf":
+            case "oneOf": {
+                let { schemas } = def;
+                return schemas
+                    .flatMap(schema => near(schema, context))
+                    .filter(x => !schemas.some(schema => accepts(x, schema)));
+            }
+            case "taggedUnion": {
+                let { key, variants } = def;
+                let tags = Object.keys(variants);
+                let variant = variants[pick(random, tags)]!;
+                return [null, { [key]: `${tags.join("|")}?` }, ...near(variant, context)];
+            }
+            case "lazy":
+                return deep(context) ? [] : near(def.get(), nested);
+            default:
+                // wrappers such as `maybe` or `catchError` may accept some mutations of their schema
+                return isWrapper(def) ? near(def.schema, context).filter(x => !accepts(x, schema)) : [];
+        }
+    } else if (Array.isArray(schema)) {
+        let x: unknown[] = sample();
+        let values: unknown[] = [null, {}, [...x, null]];
+        if (x.length) {
+            let index = int(random, 0, x.length - 1);
+            values.push(x.slice(0, -1), ...replace(x, index, schema[index], nested));
+        }
+        return values;
+    } else if (typeof schema === "object" && schema) {
+        let x: Record<string, unknown> = sample();
+        let keys = Object.keys(schema);
+        let values: unknown[] = [null, []];
+        if (keys.length) {
+            let key = pick(random, keys);
+            values.push(...replace(x, key, schema[key as keyof typeof schema], nested));
+            if (!accepts(undefined, schema[key as keyof typeof schema])) {
+                let { [key]: _, ...rest } = x;
+                values.push(rest);
+            }
+        }
+        if (context.unknown === "strict") values.push({ ...x, [`${keys.join("")}_`]: 0 });
+        return values;
+    } else {
+        switch (typeof schema) {
+            case "number":
+                return [schema === 0 ? 1 : schema * 2];
+            case "bigint":
+                return [schema + 1n];
+            case "boolean":
+                return [!schema];
+            case "string":
+                return [`${schema}_`];
+            case "symbol":
+                return [Symbol()];
+            default:
+                return [schema === null ? undefined : null];
+        }
+    }
+};
+
+/**
+ * Creates a generator of values that the schema accepts.
+ * The values are inputs of the schema, that is, values before any transformations in the schema are applied.
+ * Opaque validators, such as custom ones or string patterns with lookarounds, need a generator to be registered with `register`.
+ * @example
+ * const sample = arbitrary({ id: integer({ min: 1 }), tags: array(string(/^[a-z]+$/)) });
+ * sample(seeded(42)); // returns, for example, { id: 17, tags: ["ab", "x"] }
+ * @param schema A schema to generate values for
+ */
+export const arbitrary =
+    <const T extends Schema<any>>(schema: T): Arbitrary<Input<T>> =>
+    random =>
+        generate(schema, { random, depth: 0, unknown: undefined });
+
+/**
+ * Creates a generator of near misses: values that are close to valid ones but are rejected by the schema,
+ * such as a wrong type, a number out of bounds, a missing required key, or a valid object with one invalid property.
+ * @example
+ * mutations(integer({ min: 1 }))(seeded(42)); // returns ["0", NaN, Infinity, null, 0, 1.5]
+ * @param schema A schema to generate invalid values for
+ */
+export const mutations =
+    (schema: Schema<any>): Arbitrary<unknown[]> =>
+    random =>
+        near(schema, { random, depth: 0, unknown: undefined });
+
+const show = (x: unknown) =>
+    String(JSON.stringify(x, (_, value) => (typeof value === "bigint" ? `${value}n` : value)) ?? x);
+
+/**
+ * Checks that the schema accepts every value generated by `arbitrary` and rejects every value generated by `mutations`.
+ * The checks are deterministic: a failure names the seed and the run that reproduce it.
+ * @example
+ * test("user schema", () => check(user, { seed: 1, runs: 500 }));
+ * @param schema A schema to check
+ * @param [options] The seed of the random numbers and the number of runs, by default 0 and 100
+ * @throws {Error} If the schema rejects a generated value or accepts a mutation
+ */
+export const check = (schema: Schema<any>, options: { seed?: number; runs?: number } = {}): void => {
+    let { seed = 0, runs = 100 } = options;
+    let random = seeded(seed);
+    let sample = arbitrary(schema);
+    let mutate = mutations(schema);
+
+    for (let run = 0; run < runs; run++) {
+        let x = sample(random);
+        if (!accepts(x, schema)) throw new Error(`schema rejected ${show(x)} (seed ${seed}, run ${run})`);
+
+        for (let y of mutate(random)) {
+            if (accepts(y, schema))
+                throw new Error(`schema accepted the mutation ${show(y)} (seed ${seed}, run ${run})`);
+        }
+    }
+};
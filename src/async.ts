@@ -0,0 +1,350 @@
+import {
+    any,
+    array,
+    definition,
+    fail,
+    flatten,
+    isOptional,
+    isWrapper,
+    rest,
+    rethrow,
+    tuple,
+    validate,
+    ValidationError,
+    wrap,
+    type ErrorDescription,
+    type ErrorInfo,
+    type Input,
+    type Options,
+    type Schema,
+    type Validator,
+} from "./index";
+import { active, define } from "./internal";
+
+/**
+ * A validator that resolves to the validated value. Async validators must be validated with `validateAsync`.
+ * @see {@link validateAsync}
+ */
+export type AsyncValidator<T, I = unknown> = Validator<Promise<T>, I>;
+
+/**
+ * Just like `Result`, but awaits the results of async validators.
+ */
+export type AsyncResult<A extends Schema<any>> =
+    A extends Validator<infer K> ? Awaited<K> : A extends object ? { -readonly [K in keyof A]: AsyncResult<A[K]> } : A;
+
+/**
+ * Lazy schemas that are being validated along with the values they validate, used to detect cyclic values.
+ */
+type Ancestors = { schema: Schema<any>; value: any; parent?: Ancestors };
+type Context = { options: Options; ancestors?: Ancestors };
+
+/**
+ * Validates the entries of `x` at `keys` in parallel, then writes the results into `x` (or its clone in copy-on-write mode).
+ * Reports failures in the order of `keys`, at the path segments that `segment` returns for them.
+ */
+const entries = async (
+    x: any,
+    keys: (string | number)[],
+    validate: (key: string | number) => Promise<any>,
+    context: Context,
+    segment = (key: string | number) => key,
+) => {
+    let results = await Promise.allSettled(keys.map(validate));
+    let errors: ErrorInfo[] = [];
+    let y = x;
+
+    keys.forEach((key, i) => {
+        let result = results[i]!;
+        if (result.status === "fulfilled") {
+            // left out elements of a tuple are not added, unless a default value fills them in
+            if (Array.isArray(x) && (key as number) >= x.length && result.value === undefined) return;
+            if (context.options.copy) {
+                if (Object.is(x[key], result.value)) return;
+                if (x === y) y = Array.isArray(x) ? x.slice() : { ...x };
+            }
+            y[key] = result.value;
+        } else if (context.options.all && result.reason instanceof ValidationError) {
+            result.reason.info.path.push(segment(key));
+            errors.push(...flatten(result.reason.info));
+        } else {
+            rethrow(result.reason, segment(key));
+        }
+    });
+
+    return errors.length ? fail({ type: "multiple", errors }) : y;
+};
+
+/**
+ * Validates a key and a value of an entry in parallel. Failures of the value take precedence over failures of the key.
+ */
+const pair = async (k: any, v: any, key: Schema<any>, value: Schema<any>, context: Context) => {
+    let [y, w] = await Promise.allSettled([walk(k, key, context), walk(v, value, context)]);
+    if (w.status === "rejected") throw w.reason;
+    if (y.status === "rejected") {
+        if (y.reason instanceof ValidationError) {
+            y.reason.info = { type: "key", path: [], error: y.reason.info };
+        }
+        throw y.reason;
+    }
+    return [y.value, w.value] as const;
+};
+
+/**
+ * Validates an alternative of a union. When unknown keys are stripped, the alternative works on a copy,
+ * so that the keys are still there for the other alternatives.
+ */
+const attempt = async (x: any, schema: Schema<any>, context: Context) => {
+    if (context.options.unknown === "strip") context = { ...context, options: { ...context.options, copy: true } };
+    try {
+        return { ok: true as const, value: await walk(x, schema, context) };
+    } catch (e) {
+        if (e instanceof ValidationError) return { ok: false as const, error: e.info };
+        throw e;
+    }
+};
+
+const walk = async (x: any, schema: Schema<any>, context: Context): Promise<any> => {
+    if (typeof schema === "function") {
+        let def = definition(schema);
+        switch (def?.kind) {
+            case "struct":
+                return walk(
+                    x,
+                    def.schema,
+                    def.options ? { ...context, options: { ...context.options, ...def.options } } : context,
+                );
+            case "maybe":
+            case "nullable":
+            case "nullish":
+                // missing values never reach the nested schema, so the validator itself returns the default value
+                return (def.kind === "maybe" ? x === undefined : def.kind === "nullable" ? x === null : x == null)
+                    ? schema(x)
+                    : walk(x, def.schema, context);
+            case "preprocess":
+                return walk(def.preprocess(x), def.schema, context);
+            case "filter": {
+                let y = await walk(x, def.schema, context);
+                return (await def.filter(y)) ? y : fail(def.message || "filter failed");
+            }
+            case "array": {
+                let { minItems, maxItems, unique } = def.bounds ?? {};
+                validate(x, array(any(), { minItems, maxItems }));
+                let item = def.schema;
+                let y = await entries(x, [...x.keys()], i => walk(x[i], item, context), context);
+                return unique ? validate(y, array(any(), { unique })) : y;
+            }
+            case "record": {
+                if (typeof x !== "object" || !x || Array.isArray(x))
+                    throw fail({ type: "expected", expected: "object" });
+                let { key, value } = def;
+                let keys: Record<string, any> = {};
+                // the entries are written into a clone, then moved to their validated keys
+                let result = await entries(
+                    { ...x },
+                    Object.keys(x),
+                    async i => {
+                        let [k, v] = await pair(i, x[i], key, value, context);
+                        keys[i] = k;
+                        return v;
+                    },
+                    context,
+                );
+
+                let y: any = {};
+                for (let i in result) y[keys[i]] = result[i];
+                return y;
+            }
+            case "tuple": {
+                let { elements, rest: trailing } = def;
+                // checks the length only, since the elements are validated below.
+                // an opaque validator stands for a required element, since `any` is optional
+                let present = (y: unknown) => y;
+                validate(
+                    x,
+                    tuple(
+                        elements.map(e => (isOptional(e) ? any() : present)),
+                        trailing === undefined ? undefined : rest(any()),
+                    ),
+                );
+                let keys = [...Array(Math.max(x.length, elements.length)).keys()];
+                return entries(
+                    x,
+                    keys,
+                    i => walk(x[i], (i as number) < elements.length ? elements[i as number] : trailing, context),
+                    context,
+                );
+            }
+            case "mapOf": {
+                if (!(x instanceof Map)) throw fail({ type: "expected", expected: "Map" });
+                let { key, value } = def;
+                let list = [...x];
+                // validated entries are written into a clone, so that they can be compared with the original ones
+                let result = await entries(
+                    list.slice(),
+                    [...list.keys()],
+                    i => pair(list[i as number]![0], list[i as number]![1], key, value, context),
+                    { ...context, options: { ...context.options, copy: false } },
+                    i => {
+                        let k = list[i as number]![0];
+                        return typeof k === "string" || typeof k === "number" ? k : i;
+                    },
+                );
+                return result.some(([k, v]: any, i: number) => !Object.is(k, list[i]![0]) || !Object.is(v, list[i]![1]))
+                    ? new Map(result)
+                    : x;
+            }
+            case "setOf": {
+                if (!(x instanceof Set)) throw fail({ type: "expected", expected: "Set" });
+                let item = def.schema;
+                let list = [...x];
+                let result = await entries(
+                    list.slice(),
+                    [...list.keys()],
+                    i => walk(list[i as number], item, context),
+                    {
+                        ...context,
+                        options: { ...context.options, copy: false },
+                    },
+                );
+                return result.some((v: any, i: number) => !Object.is(v, list[i])) ? new Set(result) : x;
+            }
+            case "allOf": {
+                for (let item of def.schemas) x = await walk(x, item, context);
+                return x;
+            }
+            case "anyOf": {
+                let failures = [];
+                for (let item of def.schemas) {
+                    let result = await attempt(x, item, context);
+                    if (result.ok) return result.value;
+                    failures.push(result.error);
+                }
+                throw fail({ type: "union", failures });
+            }
+            case "oneOf": {
+                let results = await Promise.all(def.schemas.map(item => attempt(x, item, context)));
+                let matches = results.filter(result => result.ok);
+                if (matches.length > 1) throw fail({ type: "unexpected" });
+                if (!matches.length) throw fail({ type: "union", failures: results.map(result => result.error!) });
+                return matches[0]!.value;
+            }
+            case "taggedUnion": {
+                if (typeof x !== "object" || !x || Array.isArray(x))
+                    throw fail({ type: "expected", expected: "object" });
+
+                let { key, variants } = def;
+                let tag = x[key];
+                if (typeof tag !== "string" || !Object.hasOwn(variants, tag)) {
+                    rethrow(
+                        new ValidationError({ type: "unknown_tag", tag, tags: Object.keys(variants), path: [] }),
+                        key,
+                    );
+                }
+                return walk(x, variants[tag], context);
+            }
+            case "lazy": {
+                if (typeof x === "object" && x) {
+                    for (let node = context.ancestors; node; node = node.parent) {
+                        if (node.schema === schema && node.value === x) throw fail({ type: "cycle" });
+                    }
+                    context = { ...context, ancestors: { schema, value: x, parent: context.ancestors } };
+                }
+                return walk(x, def.get(), context);
+            }
+            default: {
+                if (!isWrapper(def)) return validate(x, schema, context.options);
+                // lets the wrapper handle the outcome of its schema, as if the schema has been validated synchronously
+                let outcome: Validator<any>;
+                try {
+                    let y = await walk(x, def.schema, context);
+                    outcome = () => y;
+                } catch (e) {
+                    outcome = () => {
+                        throw e;
+                    };
+                }
+                return wrap({ ...def, schema: outcome })(x);
+            }
+        }
+    } else if (typeof schema === "object" && schema) {
+        if (
+            typeof x !== "object" ||
+            !x ||
+            !(Array.isArray(schema) ? Array.isArray(x) && schema.length === x.length : !Array.isArray(x))
+        )
+            throw fail({ type: "expected", expected: Array.isArray(schema) ? `array[${schema.length}]` : "object" });
+
+        let { unknown } = context.options;
+        let keys: (string | number)[] = Object.keys(schema);
+        let extra =
+            Array.isArray(schema) || !unknown || unknown === "allow"
+                ? []
+                : Object.keys(x).filter(i => !Object.hasOwn(schema, i));
+        let y = await entries(
+            x,
+            unknown === "strict" ? keys.concat(extra) : keys,
+            async i =>
+                Object.hasOwn(schema, i)
+                    ? walk(x[i], schema[i as keyof typeof schema], context)
+                    : fail({ type: "unknown_key", key: i as string }),
+            context,
+        );
+
+        if (unknown === "strip" && extra.length) {
+            if (context.options.copy && x === y) y = { ...x };
+            for (let i of extra) delete y[i];
+        }
+        return y;
+    } else {
+        return validate(x, schema);
+    }
+};
+
+/**
+ * Validates and transforms the `object` using `schema` as description, just like `validate` does,
+ * but also awaits the async validators nested in the schema.
+ * The properties of objects, as well as elements of arrays and entries of records, are validated in parallel.
+ * @see {@link validate}
+ * @example
+ * const username: AsyncValidator<string> = async x => ((await taken(x = validate(x, string()))) ? fail("username is taken") : x);
+ * await validateAsync({ username: "x" }, { username }); // resolves to { username: "x" }
+ * @param x What to validate?
+ * @param schema A description of how to validate/transform the object.
+ * @param [options] Options for this validation and every validation nested in it.
+ */
+export const validateAsync = <const T extends Schema<any>>(
+    x: any,
+    schema: T,
+    options?: Options,
+): Promise<AsyncResult<T>> => walk(x, schema, { options: options ?? {} });
+
+/**
+ * Maps the resulting value of a schema with async validators.
+ * Works just like `map`, but the mapping receives the awaited result and can be async itself.
+ * Called outside of `validateAsync`, the validator returns a promise of the mapped value.
+ * @see {@link map}
+ * @param schema A validator for the input of the mapping
+ * @param fn The mapping itself
+ */
+export const mapAsync = <const T extends Schema<any>, U>(
+    schema: T,
+    fn: (x: AsyncResult<T>) => U | Promise<U>,
+): AsyncValidator<U, Input<T>> =>
+    // validateAsync walks the schema by the definition, while direct calls validate it here
+    define(async x => fn(await validateAsync(x, schema, active)), { kind: "map", schema, map: fn });
+
+/**
+ * Filters the resulting value of a schema with async validators.
+ * Works just like `filter`, but the predicate receives the awaited result and can be async itself.
+ * Called outside of `validateAsync`, the validator returns a promise that rejects if the predicate fails.
+ * @see {@link filter}
+ * @param schema A validator for the input of the predicate
+ * @param predicate The predicate itself
+ */
+export const filterAsync = <const T extends Schema<any>>(
+    schema: T,
+    predicate: (x: AsyncResult<T>) => boolean | Promise<boolean>,
+    message?: string | ErrorDescription,
+): AsyncValidator<AsyncResult<T>, Input<T>> =>
+    mapAsync(schema, async x => ((await predicate(x)) ? x : fail(message || "filter failed")));
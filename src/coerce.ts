@@ -0,0 +1,154 @@
+import {
+    anyOf,
+    bigint,
+    boolean,
+    date,
+    definition,
+    integer,
+    isWrapper,
+    number,
+    preprocess,
+    safeValidate,
+    validate,
+    type NumberBounds,
+    type Options,
+    type Result,
+    type Schema,
+    type Validator,
+} from "./index";
+import { isoDate, isoDateTime } from "./string-formats";
+
+const decimal = /^[+-]?(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?$/i;
+const spellings: Record<string, boolean> = {
+    true: true,
+    false: false,
+    "1": true,
+    "0": false,
+    yes: true,
+    no: false,
+    on: true,
+    off: false,
+};
+
+/**
+ * Validators that convert strings, such as the ones from query strings, environment variables and form data,
+ * into the values of other types. Parsing is strict: a string is either a valid representation of a value or the validation fails.
+ * Values that are already of the desired type pass as is.
+ * Every validator is a `preprocess` of the validator of the desired type, so that tools such as `toJsonSchema` or `arbitrary` see the type and its bounds.
+ * @see {@link preprocess}
+ */
+export const coerce = {
+    /**
+     * Ensures that a value is a finite number or a string with a decimal representation of one, such as `-1.5e3`.
+     * @param bounds Optional constraints, checked after the conversion
+     */
+    number: (bounds?: NumberBounds): Validator<number, number | string> =>
+        preprocess((x: number | string) => (typeof x === "string" && decimal.test(x) ? Number(x) : x), number(bounds)),
+
+    /**
+     * Ensures that a value is an integer or a string with a decimal representation of one.
+     * @param bounds Optional constraints, checked after the conversion
+     */
+    integer: (bounds?: NumberBounds): Validator<number, number | string> =>
+        preprocess((x: number | string) => (typeof x === "string" && decimal.test(x) ? Number(x) : x), integer(bounds)),
+
+    /**
+     * Ensures that a value is a boolean or one of the strings
+     * `"true"`, `"1"`, `"yes"`, `"on"` (for `true`) and `"false"`, `"0"`, `"no"`, `"off"` (for `false`).
+     */
+    boolean: (): Validator<boolean, boolean | string> =>
+        preprocess(
+            (x: boolean | string) => (typeof x === "string" && Object.hasOwn(spellings, x) ? spellings[x] : x),
+            boolean(),
+        ),
+
+    /**
+     * Ensures that a value is a valid `Date`, a timestamp in milliseconds, or an ISO 8601 date or datetime string.
+     * Dates are read as midnight UTC, while datetimes must have a UTC offset, so that the result does not depend on the local time zone.
+     * Strings of dates that do not exist, such as `2001-02-30`, fail instead of rolling over to the next month.
+     * Creates a new `Date` unless the value is a `Date` already.
+     * @see {@link isoDate}
+     * @see {@link isoDateTime}
+     */
+    date: (): Validator<Date, Date | number | string> => {
+        let iso = anyOf(isoDate(), isoDateTime());
+        return preprocess(
+            (x: Date | number | string) => (Number.isFinite(x) || safeValidate(x, iso).ok ? new Date(x) : x),
+            date(),
+        );
+    },
+
+    /**
+     * Ensures that a value is a bigint, a safe integer or a string with a decimal representation of an integer.
+     */
+    bigint: (): Validator<bigint, bigint | number | string> =>
+        preprocess(
+            (x: bigint | number | string) =>
+                Number.isSafeInteger(x) || (typeof x === "string" && /^[+-]?\d+$/.test(x)) ? BigInt(x) : x,
+            bigint(),
+        ),
+};
+
+/**
+ * Anything that stores string keys with multiple values, such as `URLSearchParams` or `FormData`.
+ */
+export type Params = { keys(): Iterable<string>; getAll(key: string): unknown[] };
+
+/**
+ * Resolves the standard validators that wrap a schema, such as `maybe` or `struct`.
+ */
+const unwrap = (schema: Schema<any>): Schema<any> => {
+    let def = typeof schema === "function" ? definition(schema) : undefined;
+    return def?.kind === "lazy" ? unwrap(def.get()) : isWrapper(def) ? unwrap(def.schema) : schema;
+};
+
+/**
+ * Checks whether a schema accepts an array, in which case all the values of a key are validated.
+ */
+const multiple = (schema: Schema<any>): boolean => {
+    schema = unwrap(schema);
+    let def = typeof schema === "function" ? definition(schema) : undefined;
+    switch (def?.kind) {
+        case "array":
+        case "tuple":
+            return true;
+        case "allOf":
+        case "anyOf":
+        case "oneOf":
+            return def.schemas.some(multiple);
+        default:
+            return Array.isArray(schema);
+    }
+};
+
+/**
+ * Validates `URLSearchParams`, `FormData` or anything alike against an object schema.
+ * Keys that are validated with an `array` receive all their values, while other keys receive only the first one.
+ * Use `coerce` validators to convert the values from strings.
+ * @see {@link coerce}
+ * @example
+ * validateParams(new URLSearchParams("page=2&tag=a&tag=b"), {
+ *     page: maybe(coerce.integer(), 1),
+ *     tag: array(string()),
+ * }); // returns { page: 2, tag: ["a", "b"] }
+ * @param params Parameters to validate
+ * @param schema An object schema to validate the parameters with
+ * @param [options] Options for this validation and every validation nested in it.
+ */
+export const validateParams = <const T extends Schema<any>>(
+    params: Params,
+    schema: T,
+    options?: Options,
+): Result<T> => {
+    let shape: any = unwrap(schema);
+    let object: Record<string, unknown> = {};
+    for (let key of params.keys()) {
+        if (Object.hasOwn(object, key)) continue;
+        let values = params.getAll(key);
+        object[key] =
+            typeof shape === "object" && shape && Object.hasOwn(shape, key) && multiple(shape[key])
+                ? values
+                : values[0];
+    }
+    return validate(object, schema, options);
+};
@@ -0,0 +1,181 @@
+import {
+    allOf,
+    anyOf,
+    array,
+    definition,
+    isWrapper,
+    lazy,
+    mapOf,
+    oneOf,
+    record,
+    rest,
+    setOf,
+    struct,
+    taggedUnion,
+    tuple,
+    wrap,
+    type ErrorInfo,
+    type Input,
+    type Result,
+    type Schema,
+    type Validator,
+} from "./index";
+import { assign, collect, define, fail, unknowns } from "./internal";
+
+let codegen = true;
+
+/**
+ * Compiles an object schema with the `Function` constructor, unrolling the validation of each key.
+ * Returns `undefined` if code generation is disallowed, e.g. by a Content Security Policy.
+ */
+const generate = (schema: object, keys: string[], children: Validator<any>[], expected: string) => {
+    if (!codegen) return;
+
+    let tuple = Array.isArray(schema);
+    let code = `return function (x) {
+        if (${tuple ? `!Array.isArray(x) || x.length !== ${keys.length}` : `typeof x !== "object" || !x || Array.isArray(x)`})
+            fail({ type: "expected", expected: ${JSON.stringify(expected)} });
+        var y = x, errors = [];
+        ${keys
+            .map((key, j) => {
+                let i = JSON.stringify(key);
+                return `try { y = assign(x, y, ${i}, children[${j}](x[${i}])); } catch (e) { collect(errors, e, ${i}); }`;
+            })
+            .join("\n")}
+        ${tuple ? "" : "y = unknowns(x, y, schema, errors);"}
+        return errors.length ? fail({ type: "multiple", errors: errors }) : y;
+    }`;
+
+    try {
+        return new Function("schema", "children", "fail", "assign", "collect", "unknowns", code)(
+            schema,
+            children,
+            fail,
+            assign,
+            collect,
+            unknowns,
+        ) as Validator<any>;
+    } catch (e) {
+        if (!(e instanceof EvalError)) throw e;
+        codegen = false;
+    }
+};
+
+/**
+ * Compiles an object schema into a closure that iterates over precomputed keys.
+ */
+const specialize =
+    (schema: object, keys: string[], children: Validator<any>[], expected: string): Validator<any> =>
+    x => {
+        if (
+            Array.isArray(schema)
+                ? !Array.isArray(x) || x.length !== keys.length
+                : typeof x !== "object" || !x || Array.isArray(x)
+        )
+            throw fail({ type: "expected", expected });
+
+        let y = x;
+        let errors: ErrorInfo[] = [];
+        for (let j = 0; j < keys.length; j++) {
+            let i = keys[j]!;
+            try {
+                y = assign(x, y, i, children[j]!(x[i]));
+            } catch (e) {
+                collect(errors, e, i);
+            }
+        }
+
+        if (!Array.isArray(schema)) y = unknowns(x, y, schema, errors);
+        return errors.length ? fail({ type: "multiple", errors }) : y;
+    };
+
+/**
+ * Compiles a schema, rebuilding the standard validators with compiled nested schemas.
+ * Compiled schemas are memoized in `built`, so that a schema that is used several times is compiled only once.
+ */
+const build = (
+    schema: Schema<any>,
+    generated: boolean,
+    built: Map<Schema<any>, Validator<any>>,
+): Validator<any, any> => {
+    let cached = built.get(schema);
+    if (cached) return cached;
+
+    let compiled: Validator<any>;
+    let nested = (schema: Schema<any>) => build(schema, generated, built);
+    if (typeof schema === "function") {
+        let def = definition(schema);
+        switch (def?.kind) {
+            case "struct":
+                compiled = def.options ? struct(nested(def.schema), def.options) : nested(def.schema);
+                break;
+            case "record":
+                compiled = record(nested(def.key), nested(def.value));
+                break;
+            case "mapOf":
+                compiled = mapOf(nested(def.key), nested(def.value));
+                break;
+            case "setOf":
+                compiled = setOf(nested(def.schema));
+                break;
+            case "tuple":
+                compiled = tuple(def.elements.map(nested), def.rest === undefined ? undefined : rest(nested(def.rest)));
+                break;
+            case "array":
+                compiled = array(nested(def.schema), def.bounds);
+                break;
+            case "allOf":
+            case "anyOf":
+            case "oneOf":
+                compiled = { allOf, anyOf, oneOf }[def.kind](...def.schemas.map(nested));
+                break;
+            case "taggedUnion": {
+                let variants: Record<string, Validator<any>> = {};
+                for (let tag in def.variants) variants[tag] = nested(def.variants[tag]);
+                compiled = taggedUnion(def.key, variants);
+                break;
+            }
+            case "lazy": {
+                let get = def.get;
+                compiled = lazy(() => nested(get()));
+                break;
+            }
+            default:
+                compiled = isWrapper(def) ? wrap({ ...def, schema: nested(def.schema) }) : schema;
+        }
+    } else if (typeof schema === "object" && schema) {
+        let keys: string[] = [];
+        for (let i in schema) keys.push(i);
+
+        let children = keys.map(i => nested(schema[i as keyof typeof schema]));
+        let expected = Array.isArray(schema) ? `array[${schema.length}]` : "object";
+        compiled = define(
+            (generated && generate(schema, keys, children, expected)) || specialize(schema, keys, children, expected),
+            { kind: "struct", schema },
+        );
+    } else {
+        let expected = JSON.stringify(schema);
+        compiled = x => (x !== schema ? fail({ type: "expected", expected }) : x);
+    }
+
+    built.set(schema, compiled);
+    return compiled;
+};
+
+/**
+ * Compiles a schema into a validator that is specialized for it.
+ * Unlike `struct`, which walks the schema on each validation, the schema is walked only once,
+ * so the validator skips dispatching on the kinds of nested schemas.
+ * The compiled validator gives exactly the same results and errors as `validate` does.
+ *
+ * Object schemas are compiled into code with the `Function` constructor, unless it is disallowed
+ * (e.g. by a Content Security Policy), in which case they are compiled into closures.
+ * @see {@link struct}
+ * @example
+ * const validator = compile({ x: number(), y: array({ z: string() }) });
+ * validator({ x: 0, y: [{ z: "" }] });
+ * @param schema A description of how to validate/transform the object.
+ * @param [generated] Whether to generate code with the `Function` constructor. Defaults to `true`.
+ */
+export const compile = <const T extends Schema<any>>(schema: T, generated = true): Validator<Result<T>, Input<T>> =>
+    build(schema, generated, new Map());
@@ -0,0 +1,265 @@
+import {
+    allOf,
+    anyOf,
+    array,
+    definition,
+    isWrapper,
+    lazy,
+    mapOf,
+    oneOf,
+    record,
+    rest,
+    setOf,
+    taggedUnion,
+    tuple,
+    wrap,
+    type Definition,
+    type Schema,
+    type Validator,
+} from "./index";
+
+/**
+ * A definition with its nested schemas replaced by their nodes.
+ */
+type Described<D> = D extends unknown
+    ? {
+          [K in keyof D]: K extends "schema" | "value" | "rest"
+              ? Node
+              : K extends "key"
+                ? D[K] extends string
+                    ? D[K]
+                    : Node
+                : K extends "elements" | "schemas"
+                  ? Node[]
+                  : K extends "variants"
+                    ? Record<string, Node>
+                    : K extends "get"
+                      ? () => Node
+                      : D[K];
+      }
+    : never;
+
+/**
+ * A node of the tree that `describe` builds out of a schema.
+ * Standard validators are described by their definitions, with nested schemas replaced by their nodes.
+ * Literal schemas are described as `literal`, `object` and `elements` nodes, while custom validators are `custom` nodes.
+ * Every node keeps the schema it describes in `source`.
+ * @see {@link describe}
+ */
+export type Node = { source: Schema<any> } & (
+    | { kind: "literal"; value: string | number | bigint | boolean | symbol | null | undefined }
+    | { kind: "object"; properties: Record<string, Node> }
+    | { kind: "elements"; elements: Node[] }
+    | { kind: "custom" }
+    | Described<Definition>
+);
+
+const described = new WeakMap<object, Node>();
+
+const values = <T, U>(x: Record<string, T>, f: (x: T) => U) => {
+    let y: Record<string, U> = {};
+    for (let key in x) y[key] = f(x[key]!);
+    return y;
+};
+
+/**
+ * Describes a schema as a tree of nodes, so that tools such as documentation generators can inspect it.
+ * Recursive schemas are described lazily: the node of a `lazy` validator describes its schema when `get` is called.
+ * @example
+ * describe({ id: integer(), tags: maybe(array(string())) });
+ * // returns {
+ * //     kind: "object",
+ * //     properties: {
+ * //         id: { kind: "integer", source: ... },
+ * //         tags: { kind: "maybe", schema: { kind: "array", schema: { kind: "string", ... }, ... }, ... },
+ * //     },
+ * //     source: ...,
+ * // }
+ * @param schema A schema to describe
+ */
+export const describe = (schema: Schema<any>): Node => {
+    if (typeof schema !== "function" && (typeof schema !== "object" || !schema))
+        return { kind: "literal", value: schema, source: schema };
+
+    let cached = described.get(schema);
+    if (cached) return cached;
+
+    let node: Node;
+    if (typeof schema === "function") {
+        let def = definition(schema);
+        switch (def?.kind) {
+            case undefined:
+                node = { kind: "custom", source: schema };
+                break;
+            case "setOf":
+            case "array":
+                node = { ...def, schema: describe(def.schema), source: schema };
+                break;
+            case "record":
+            case "mapOf":
+                node = { ...def, key: describe(def.key), value: describe(def.value), source: schema };
+                break;
+            case "tuple":
+                node = {
+                    ...def,
+                    elements: def.elements.map(describe),
+                    rest: def.rest === undefined ? undefined : describe(def.rest),
+                    source: schema,
+                };
+                break;
+            case "allOf":
+            case "anyOf":
+            case "oneOf":
+                node = { ...def, schemas: def.schemas.map(describe), source: schema };
+                break;
+            case "taggedUnion":
+                node = { ...def, variants: values(def.variants, describe), source: schema };
+                break;
+            case "lazy": {
+                let get = def.get;
+                node = { kind: "lazy", get: () => describe(get()), source: schema };
+                break;
+            }
+            default:
+                node = isWrapper(def)
+                    ? { ...def, schema: describe(def.schema), source: schema }
+                    : ({ ...def, source: schema } as Node);
+        }
+    } else if (Array.isArray(schema)) {
+        node = { kind: "elements", elements: schema.map(describe), source: schema };
+    } else {
+        node = { kind: "object", properties: values(schema as Record<string, Schema<any>>, describe), source: schema };
+    }
+
+    described.set(schema, node);
+    return node;
+};
+
+/**
+ * Returns the nodes nested directly in a node, in the order they are validated.
+ * The node of a `lazy` validator has the node of its schema as the only child.
+ * @param node A node returned by `describe`
+ */
+export const children = (node: Node): Node[] => {
+    switch (node.kind) {
+        case "object":
+            return Object.values(node.properties);
+        case "elements":
+            return node.elements;
+        case "setOf":
+        case "array":
+            return [node.schema];
+        case "record":
+        case "mapOf":
+            return [node.key, node.value];
+        case "tuple":
+            return node.rest ? [...node.elements, node.rest] : node.elements;
+        case "allOf":
+        case "anyOf":
+        case "oneOf":
+            return node.schemas;
+        case "taggedUnion":
+            return Object.values(node.variants);
+        case "lazy":
+            return [node.get()];
+        default:
+            return isWrapper(node) ? [node.schema] : [];
+    }
+};
+
+/**
+ * Visits every node of a schema depth-first, parents before their children.
+ * The schema of a `lazy` validator is visited only once, so recursive schemas are walked through without looping.
+ * @example
+ * const regexes: RegExp[] = [];
+ * walk(schema, node => {
+ *     if (node.kind === "string" && node.regex) regexes.push(node.regex);
+ * });
+ * @param schema A schema to walk through
+ * @param visit Called with every node and its ancestors, outermost first. Return `false` to skip the children of the node
+ */
+export const walk = (schema: Schema<any>, visit: (node: Node, parents: Node[]) => boolean | void): void => {
+    let seen = new Set<Schema<any>>();
+    let step = (node: Node, parents: Node[]) => {
+        if (visit(node, parents) === false) return;
+        for (let child of children(node)) {
+            if (node.kind === "lazy") {
+                if (seen.has(child.source)) continue;
+                seen.add(child.source);
+            }
+            step(child, [...parents, node]);
+        }
+    };
+    step(describe(schema), []);
+};
+
+/**
+ * Rebuilds a schema bottom-up, replacing each of its nested schemas with the result of `visit`.
+ * Schemas whose nested schemas are all kept as they are stay the same, so returning `node.source` keeps a schema intact.
+ * @example
+ * // trims every string
+ * const trimmed = transform(schema, node => (node.kind === "string" ? map(node.source, x => x.trim()) : node.source));
+ * @param schema A schema to transform
+ * @param visit Called with the node of every schema after its nested schemas are transformed. Returns the replacement
+ */
+export const transform = (schema: Schema<any>, visit: (node: Node) => Schema<any>): Schema<any> => {
+    let done = new Map<Schema<any>, Schema<any>>();
+
+    let rebuild = (schema: Schema<any>): Schema<any> => {
+        if (done.has(schema)) return done.get(schema);
+
+        let node = describe(schema);
+        let changed = node.kind === "lazy";
+        let nested = (node: Node) => {
+            let y = rebuild(node.source);
+            changed ||= y !== node.source;
+            return y;
+        };
+
+        let y: Schema<any>;
+        switch (node.kind) {
+            case "object":
+                y = values(node.properties, nested);
+                break;
+            case "elements":
+                y = node.elements.map(nested);
+                break;
+            case "record":
+                y = record(nested(node.key), nested(node.value));
+                break;
+            case "mapOf":
+                y = mapOf(nested(node.key), nested(node.value));
+                break;
+            case "setOf":
+                y = setOf(nested(node.schema));
+                break;
+            case "array":
+                y = array(nested(node.schema), node.bounds);
+                break;
+            case "tuple":
+                y = tuple(node.elements.map(nested), node.rest && rest(nested(node.rest)));
+                break;
+            case "allOf":
+            case "anyOf":
+            case "oneOf":
+                y = { allOf, anyOf, oneOf }[node.kind](...node.schemas.map(nested));
+                break;
+            case "taggedUnion":
+                y = taggedUnion(node.key, values(node.variants, nested) as Record<string, Validator<any>>);
+                break;
+            case "lazy": {
+                let get = node.get;
+                y = lazy(() => rebuild(get().source));
+                break;
+            }
+            default:
+                y = isWrapper(node) ? wrap({ ...node, schema: nested(node.schema) }) : schema;
+        }
+
+        let result = visit(describe(changed ? y : schema));
+        done.set(schema, result);
+        return result;
+    };
+
+    return rebuild(schema);
+};
@@ -0,0 +1,388 @@
+import { arbitrary, seeded } from "./arbitrary";
+import { describe, type Node } from "./describe";
+import { isOptional, isWrapper, safeValidate, type Input, type Schema } from "./index";
+
+/**
+ * Thrown when a recursive schema is entered again while it is being shrunk to its base case,
+ * so that a non-recursive alternative can be picked instead.
+ */
+class Recursion extends Error {
+    constructor() {
+        super("cannot make an example of a schema that is recursive in every alternative");
+    }
+}
+
+type Context = {
+    /** Lazy schemas that are being expanded */
+    lazies: Set<Schema<any>>;
+    /** Whether a recursive schema is entered again, in which case optional values are left out */
+    shallow: boolean;
+};
+
+const accepts = (x: unknown, schema: Schema<any>) => safeValidate(x, schema, { copy: true }).ok;
+
+/**
+ * Resolves the default value of `maybe`, `nullable` and `nullish`, which might be a factory.
+ */
+const fallback = (default_: unknown) => (typeof default_ === "function" ? default_() : default_);
+
+const opaque = (kind: string) => new Error(`cannot make an example of ${kind}, annotate it with an example`);
+
+const sample = (node: Node, context: Context): any => {
+    let nested = (node: Node) => sample(node, context);
+    switch (node.kind) {
+        case "annotate":
+            return node.annotation.example !== undefined ? node.annotation.example : nested(node.schema);
+        case "literal":
+            return node.value;
+        case "object": {
+            let y: Record<string, unknown> = {};
+            for (let key in node.properties) {
+                let value = nested(node.properties[key]!);
+                if (value !== undefined) y[key] = value;
+            }
+            return y;
+        }
+        case "elements":
+            return node.elements.map(nested);
+        case "string": {
+            if (node.format) return node.format.example;
+            if (node.regex) return arbitrary(node.source)(() => 0);
+            let { minLength = 0, maxLength = Infinity } = node.bounds ?? {};
+            return "string".padEnd(minLength, "_").slice(0, maxLength);
+        }
+        case "number":
+        case "integer": {
+            let { min, max, exclusiveMin, exclusiveMax, multipleOf } = node.bounds ?? {};
+            let lo = min ?? exclusiveMin ?? 0;
+            let step = multipleOf ?? 1;
+            let candidates = [
+                0,
+                1,
+                min,
+                max,
+                Math.ceil(lo / step) * step,
+                Math.floor(lo / step) * step + step,
+                exclusiveMax && exclusiveMax - step,
+            ];
+            return (
+                candidates.find(x => x !== undefined && accepts(x, node.source)) ?? arbitrary(node.source)(seeded(0))
+            );
+        }
+        case "boolean":
+            return true;
+        case "date":
+            return new Date(0);
+        case "bigint":
+            return 0n;
+        case "symbol":
+            return Symbol();
+        case "any":
+            return null;
+        case "typedArray":
+            return arbitrary(node.source)(() => 0);
+        case "maybe":
+        case "nullable":
+        case "nullish": {
+            let value = fallback(node.default);
+            if (value !== undefined) return value;
+            return context.shallow ? (node.kind === "nullable" ? null : undefined) : nested(node.schema);
+        }
+        case "filter": {
+            let y = nested(node.schema);
+            if (accepts(y, node.source)) return y;
+            throw opaque("a filter that rejects the example of its schema");
+        }
+        case "record": {
+            let key = context.shallow ? undefined : nested(node.key);
+            return typeof key === "string" ? { [key]: nested(node.value) } : {};
+        }
+        case "mapOf":
+            return new Map(context.shallow ? [] : [[nested(node.key), nested(node.value)]]);
+        case "setOf":
+            return new Set(context.shallow ? [] : [nested(node.schema)]);
+        case "array": {
+            let { minItems = 0, maxItems = Infinity } = node.bounds ?? {};
+            let length = context.shallow ? minItems : Math.min(Math.max(minItems, 1), maxItems);
+            return Array.from({ length }, () => nested(node.schema));
+        }
+        case "tuple":
+            return node.elements.map(nested);
+        case "allOf": {
+            let parts = node.schemas.map(nested);
+            return parts.every(part => typeof part === "object" && part && !Array.isArray(part))
+                ? Object.assign({}, ...parts)
+                : parts[0];
+        }
+        case "anyOf":
+        case "oneOf": {
+            // the first alternative that the whole union accepts, which rules out ambiguous ones for oneOf
+            for (let alternative of node.schemas) {
+                try {
+                    let y = nested(alternative);
+                    if (accepts(y, node.source)) return y;
+                } catch (e) {
+                    if (!(e instanceof Recursion)) throw e;
+                }
+            }
+            throw context.shallow ? new Recursion() : opaque(node.kind);
+        }
+        case "taggedUnion":
+            return nested(Object.values(node.variants)[0]!);
+        case "lazy": {
+            if (!context.lazies.has(node.source))
+                return sample(node.get(), { ...context, lazies: new Set(context.lazies).add(node.source) });
+            if (context.shallow) throw new Recursion();
+            return sample(node.get(), { ...context, shallow: true });
+        }
+        case "custom":
+            throw opaque("a custom validator");
+        default:
+            if (isWrapper(node)) return nested(node.schema);
+            throw opaque(node.kind);
+    }
+};
+
+/**
+ * Makes a representative input of a schema, which is the same every time, such as for API docs and fixtures.
+ * Uses annotated examples, `maybe` defaults, the first alternative of unions and the shortest strings that match regexes.
+ * Recursive schemas are expanded once.
+ * @see {@link annotate}
+ * @example
+ * example({ id: integer({ min: 1 }), email: string(/^\w+@\w+\.com$/), role: anyOf("admin", "user") });
+ * // returns { id: 1, email: "a@a.com", role: "admin" }
+ * @param schema A schema to make an example of
+ * @throws {Error} If the schema contains a custom validator or a filter that rejects the example of its schema
+ */
+export const example = <const T extends Schema<any>>(schema: T): Input<T> =>
+    sample(describe(schema), { lazies: new Set(), shallow: false });
+
+const show = (x: unknown): string =>
+    typeof x === "symbol" || x === undefined
+        ? String(x)
+        : typeof x === "bigint"
+          ? `${x}n`
+          : JSON.stringify(x, (_, value) => (typeof value === "bigint" ? `${value}n` : value));
+
+const constraints = (node: Node): string[] => {
+    let range = (min: number | undefined, max: number | undefined, unit: string) =>
+        min !== undefined && max !== undefined
+            ? [`${min}..${max} ${unit}`]
+            : min !== undefined
+              ? [`at least ${min} ${unit}`]
+              : max !== undefined
+                ? [`at most ${max} ${unit}`]
+                : [];
+
+    switch (node.kind) {
+        case "string":
+            return [
+                ...(node.format ? [node.format.expected] : []),
+                ...range(node.bounds?.minLength, node.bounds?.maxLength, "characters"),
+            ];
+        case "number":
+        case "integer": {
+            let { min, max, exclusiveMin, exclusiveMax, multipleOf } = node.bounds ?? {};
+            return [
+                min === undefined ? "" : `>= ${min}`,
+                exclusiveMin === undefined ? "" : `> ${exclusiveMin}`,
+                max === undefined ? "" : `<= ${max}`,
+                exclusiveMax === undefined ? "" : `< ${exclusiveMax}`,
+                multipleOf === undefined ? "" : `multiple of ${multipleOf}`,
+            ].filter(Boolean);
+        }
+        case "array":
+            return [
+                ...range(node.bounds?.minItems, node.bounds?.maxItems, "items"),
+                ...(node.bounds?.unique ? ["unique"] : []),
+            ];
+        default:
+            return [];
+    }
+};
+
+/**
+ * Renders a node as a Typescript-like type, such as `string[] | null`.
+ */
+const type = (node: Node, lazies: Set<Schema<any>>): string => {
+    let nested = (node: Node) => type(node, lazies);
+    let group = (node: Node) => {
+        let t = nested(node);
+        return / [|&] /.test(t) ? `(${t})` : t;
+    };
+
+    let t: string;
+    switch (node.kind) {
+        case "literal":
+            return show(node.value);
+        case "object":
+        case "custom":
+        case "boolean":
+        case "bigint":
+        case "symbol":
+        case "any":
+        case "never":
+            return node.kind;
+        case "elements":
+            return `[${node.elements.map(nested).join(", ")}]`;
+        case "string":
+            t = node.regex ? `string matching ${node.regex}` : "string";
+            break;
+        case "number":
+        case "integer":
+            t = node.kind;
+            break;
+        case "date":
+            return "Date";
+        case "instanceOf":
+            return node.type.name;
+        case "typedArray":
+            return node.type?.name ?? "TypedArray";
+        case "maybe":
+            return `${nested(node.schema)} | undefined`;
+        case "nullable":
+            return `${nested(node.schema)} | null`;
+        case "nullish":
+            return `${nested(node.schema)} | null | undefined`;
+        case "record":
+            return `Record<${nested(node.key)}, ${nested(node.value)}>`;
+        case "mapOf":
+            return `Map<${nested(node.key)}, ${nested(node.value)}>`;
+        case "setOf":
+            return `Set<${nested(node.schema)}>`;
+        case "array":
+            t = `${group(node.schema)}[]`;
+            break;
+        case "tuple":
+            return `[${[...node.elements.map(nested), ...(node.rest ? [`...${group(node.rest)}[]`] : [])].join(", ")}]`;
+        case "allOf":
+            return node.schemas.map(group).join(" & ");
+        case "anyOf":
+        case "oneOf":
+            return node.schemas.map(group).join(" | ");
+        case "taggedUnion":
+            return Object.values(node.variants).map(group).join(" | ");
+        case "lazy":
+            return lazies.has(node.source) ? "recursive" : type(node.get(), new Set(lazies).add(node.source));
+        default:
+            // wrappers such as `brand` or `map` take the type of their schema
+            return nested(node.schema);
+    }
+
+    let notes = constraints(node);
+    return notes.length ? `${t} (${notes.join(", ")})` : t;
+};
+
+type Row = {
+    field: string;
+    type: string;
+    required: boolean;
+    default?: unknown;
+    description?: string;
+    example?: unknown;
+};
+
+const child = (field: string, key: string) =>
+    /^[a-z_$][\w$]*$/i.test(key) ? (field ? `${field}.${key}` : key) : `${field}[${JSON.stringify(key)}]`;
+
+const rows = (node: Node, field: string, lazies: Set<Schema<any>>): Row[] => {
+    let row: Row = { field, type: type(node, new Set()), required: !isOptional(node.source) };
+
+    // peels the wrappers off, collecting what they document
+    for (;;) {
+        if (node.kind === "annotate") {
+            row.description ??= node.annotation.description;
+            row.example ??= node.annotation.example;
+        } else if (node.kind === "maybe" || node.kind === "nullable" || node.kind === "nullish") {
+            row.default ??= fallback(node.default);
+        } else if (node.kind === "lazy") {
+            if (lazies.has(node.source)) return [row];
+            lazies = new Set(lazies).add(node.source);
+            node = node.get();
+            continue;
+        } else if (!isWrapper(node)) {
+            break;
+        }
+        node = node.schema;
+    }
+
+    let nested: Row[] = [];
+    let alternatives = (variants: [string, Node][]) => {
+        for (let [label, variant] of variants) {
+            let found = rows(variant, `${field}#${label}`, lazies);
+            if (found.length > 1) nested.push(...found);
+        }
+    };
+
+    switch (node.kind) {
+        case "object":
+            for (let key in node.properties) nested.push(...rows(node.properties[key]!, child(field, key), lazies));
+            break;
+        case "elements":
+        case "tuple":
+            node.elements.forEach((element, i) => nested.push(...rows(element, `${field}[${i}]`, lazies)));
+            if (node.kind === "tuple" && node.rest)
+                nested.push(...rows(node.rest, `${field}[${node.elements.length}..]`, lazies));
+            break;
+        case "array":
+        case "setOf":
+            nested = rows(node.schema, `${field}[]`, lazies);
+            break;
+        case "record":
+        case "mapOf":
+            nested = rows(node.value, `${field}[*]`, lazies);
+            break;
+        case "allOf":
+            for (let part of node.schemas) nested.push(...rows(part, field, lazies).slice(1));
+            break;
+        case "anyOf":
+        case "oneOf":
+            alternatives(node.schemas.map((schema, i) => [`${i + 1}`, schema]));
+            break;
+        case "taggedUnion":
+            alternatives(Object.entries(node.variants));
+            break;
+    }
+    return [row, ...nested];
+};
+
+const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+const code = (text: string) => (text ? `\`${cell(text)}\`` : "");
+
+/**
+ * Renders a Markdown reference of a schema: a table with a row for every nested field,
+ * its type, whether it is required, its default value, and the description and the example it is annotated with.
+ * Nested fields are named by their paths, such as `items[].sku`, values of records are named `[*]`,
+ * and fields of union alternatives are named by the alternative, such as `payment#card.number` or `shape#2.radius`.
+ * @see {@link annotate}
+ * @example
+ * document({ id: annotate(integer({ min: 1 }), { description: "Order number" }), note: maybe(string(), "") });
+ * // | Field | Type | Required | Default | Description | Example |
+ * // | --- | --- | --- | --- | --- | --- |
+ * // | `id` | `integer (>= 1)` | yes |  | Order number |  |
+ * // | `note` | `string \| undefined` | no | `""` |  |  |
+ * @param schema A schema to document
+ */
+export const document = (schema: Schema<any>): string => {
+    let [root, ...fields] = rows(describe(schema), "", new Set());
+    if (!fields.length) fields = [{ ...root!, field: "(root)" }];
+
+    return [
+        "| Field | Type | Required | Default | Description | Example |",
+        "| --- | --- | --- | --- | --- | --- |",
+        ...fields.map(row =>
+            [
+                "",
+                code(row.field),
+                code(row.type),
+                row.required ? "yes" : "no",
+                row.default === undefined ? "" : code(show(row.default)),
+                cell(row.description ?? ""),
+                row.example === undefined ? "" : code(show(row.example)),
+                "",
+            ]
+                .join(" | ")
+                .trim(),
+        ),
+    ].join("\n");
+};
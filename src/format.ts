@@ -0,0 +1,78 @@
+import type { ErrorDescription, ErrorInfo, ErrorPath } from "./index";
+
+/**
+ * Renders a description of each kind of error into a human-readable message.
+ * Errors that wrap other errors (`union` and `key`) only render a heading, nested errors are listed below it.
+ */
+export type Messages = {
+    [K in Exclude<ErrorDescription["type"], "multiple">]: (error: Extract<ErrorDescription, { type: K }>) => string;
+};
+
+/**
+ * Default english messages used by `formatError`.
+ * @see {@link formatError}
+ */
+export const messages: Messages = {
+    expected: e => `expected ${e.expected}`,
+    union: () => "none of the alternatives matched",
+    key: () => "invalid key",
+    custom: e => e.message,
+    unknown_key: () => "unknown key",
+    cycle: () => "circular reference",
+    unknown_tag: e =>
+        `unknown tag ${JSON.stringify(e.tag)}, expected one of ${e.tags.map(tag => JSON.stringify(tag)).join(", ")}`,
+    too_small: e =>
+        e.subject === "number"
+            ? `expected a number ${e.exclusive ? ">" : ">="} ${e.min}`
+            : `expected at least ${e.min} ${e.subject === "string" ? "characters" : "items"}`,
+    too_big: e =>
+        e.subject === "number"
+            ? `expected a number ${e.exclusive ? "<" : "<="} ${e.max}`
+            : `expected at most ${e.max} ${e.subject === "string" ? "characters" : "items"}`,
+    not_multiple: e => `expected a multiple of ${e.multipleOf}`,
+    duplicate: e => `duplicate of the item at [${e.index}]`,
+    unexpected: () => "unexpected value",
+};
+
+/**
+ * Renders an innermost-first `ErrorPath` as a property access chain, such as `cart[2].qty`.
+ * @param path A path to render
+ */
+export const formatPath = (path: ErrorPath): string => {
+    let result = "";
+    for (let i = path.length; i--; ) {
+        let key = path[i]!;
+        result +=
+            typeof key === "number"
+                ? `[${key}]`
+                : /^[a-z_$][\w$]*$/i.test(key)
+                  ? `${result ? "." : ""}${key}`
+                  : `[${JSON.stringify(key)}]`;
+    }
+    return result;
+};
+
+const lines = (info: ErrorInfo, path: ErrorPath, messages: Messages, indent: string): string[] => {
+    path = [...info.path, ...path];
+    if (info.type === "multiple") return info.errors.flatMap(error => lines(error, path, messages, indent));
+
+    let message = (messages[info.type] as (error: ErrorInfo) => string)(info);
+    let prefix = path.length && (info.path.length || !indent) ? `${formatPath(path)}: ` : "";
+    let nested = info.type === "union" ? info.failures : info.type === "key" ? [info.error] : [];
+    return [indent + prefix + message, ...nested.flatMap(error => lines(error, path, messages, indent + "  "))];
+};
+
+/**
+ * Renders an error into human-readable lines, one line per error, such as `cart[2].qty: expected integer`.
+ * Errors nested into `union` and `key` errors are listed below them with an indent.
+ * @example
+ * const result = safeValidate(x, schema, { all: true });
+ * if (!result.ok) console.log(formatError(result.error));
+ * @example
+ * // localization
+ * formatError(info, { expected: e => `attendu ${e.expected}` });
+ * @param info An error to render
+ * @param [overrides] Messages to use instead of the default ones
+ */
+export const formatError = (info: ErrorInfo, overrides?: Partial<Messages>): string =>
+    lines(info, [], { ...messages, ...overrides }, "").join("\n");
@@ -1,6 +1,28 @@
+import {
+    active,
+    assign,
+    collect,
+    define,
+    definitions,
+    fail,
+    rethrow,
+    unknowns,
+    ValidationError,
+    withOptions,
+} from "./internal";
+
+export { fail, flatten, rethrow, ValidationError } from "./internal";
+
 type Primitive = string | number | bigint | boolean | symbol | null | undefined;
 
-export type Validator<T> = (object: any) => T;
+declare const input: unique symbol;
+
+/**
+ * A function that validates its input and returns the result, which is of type `T`.
+ * `I` is the type of the input the validator accepts. It exists only on the type level and is inferred by `Input`.
+ * @see {@link Input}
+ */
+export type Validator<T, I = unknown> = ((object: any) => T) & { readonly [input]?: [I] };
 export type Schema<A> = Validator<A> | (A extends Primitive ? A : never) | { [K in keyof A]: Schema<A[K]> };
 export type Result<A extends Schema<any>> =
     A extends Validator<infer K>
@@ -11,53 +33,323 @@ export type Result<A extends Schema<any>> =
             ? A
             : never;
 
+type Optionals<A> = { [K in keyof A]: undefined extends Input<A[K]> ? K : never }[keyof A];
+type Flat<T> = { [K in keyof T]: T[K] };
+
+/**
+ * The type of the input a schema accepts, as opposed to `Result`, which is the type of the output.
+ * The two differ for transforming schemas, such as the ones built with `map`, and for `maybe` with a default value.
+ * Properties that accept `undefined` are optional in the input.
+ * Custom validators accept `unknown`, unless they declare their input with `accepts`.
+ * @see {@link accepts}
+ * @example
+ * const schema = { at: map(number(), x => new Date(x)), page: maybe(integer(), 1) };
+ * type In = Input<typeof schema>; // { at: number; page?: number | undefined }
+ * type Out = Result<typeof schema>; // { at: Date; page: number }
+ */
+export type Input<A extends Schema<any>> = A extends (object: any) => any
+    ? A extends { readonly [input]?: [infer I] }
+        ? I
+        : unknown
+    : A extends readonly any[]
+      ? { -readonly [K in keyof A]: Input<A[K]> }
+      : A extends object
+        ? Flat<
+              { -readonly [K in Exclude<keyof A, Optionals<A>>]: Input<A[K]> } & {
+                  -readonly [K in Optionals<A>]?: Input<A[K]>;
+              }
+          >
+        : A extends Primitive
+          ? A
+          : never;
+
+declare const shape: unique symbol;
+
+/**
+ * A validator created by `struct`. Keeps the type of its schema, so that new schemas can be derived from it.
+ * @see {@link struct}
+ * @see {@link partial}
+ */
+export type Struct<T extends Schema<any>> = Validator<Result<T>, Input<T>> & { readonly [shape]: T };
+
+declare const brands: unique symbol;
+
+/**
+ * A nominal type: a value of type `T` that has passed a validator branded with `B`.
+ * Brands exist only on the type level. A branded value can be used wherever `T` is expected, but not vice versa.
+ * Brands stack, so `Brand<Brand<number, "Positive">, "Even">` is assignable to both of its brands.
+ * @see {@link brand}
+ */
+export type Brand<T, B extends string> = T & { readonly [brands]: { readonly [K in B]: T } };
+
+/**
+ * Removes the brands of a branded type.
+ * @see {@link unbrand}
+ */
+export type Unbrand<T> = T extends { readonly [brands]: infer M } ? M[keyof M] : T;
+
+/**
+ * Documentation attached to a schema with `annotate`.
+ * @see {@link annotate}
+ */
+export type Annotation<I> = {
+    /** What the value means */
+    description?: string;
+    /** A representative input */
+    example?: I;
+};
+
 export type ErrorPath = (string | number)[];
-export type ErrorInfo = ErrorDescription & { path: ErrorPath };
+/**
+ * Describes a failure and where it occured. `meta` holds the metadata attached with `withMeta`.
+ * @see {@link withMeta}
+ */
+export type ErrorInfo = ErrorDescription & { path: ErrorPath; meta?: Record<string, unknown> };
 export type ErrorDescription =
     | { type: "expected"; expected: string }
     | { type: "union"; failures: ErrorInfo[] }
     | { type: "key"; error: ErrorInfo }
     | { type: "custom"; message: string }
+    | { type: "multiple"; errors: ErrorInfo[] }
+    | { type: "unknown_key"; key: string }
+    | { type: "cycle" }
+    | { type: "unknown_tag"; tag: unknown; tags: string[] }
+    | { type: "too_small"; subject: "number" | "string" | "array"; min: number; actual: number; exclusive: boolean }
+    | { type: "too_big"; subject: "number" | "string" | "array"; max: number; actual: number; exclusive: boolean }
+    | { type: "not_multiple"; multipleOf: number; actual: number }
+    | { type: "duplicate"; index: number }
     | { type: "unexpected" };
 
 /**
- * Exception that indicates a validation failure.
+ * Options that alter the way `validate` walks through the structure.
+ * Options are inherited by every nested validation.
+ * @see {@link validate}
  */
-export class ValidationError extends Error {
-    public info: ErrorInfo;
-    constructor(info: ErrorInfo) {
-        super();
-        this.name = "ValidationError";
-        this.info = info;
-    }
-    override get message() {
-        return JSON.stringify(this.info);
-    }
-}
+export type Options = {
+    /**
+     * Collect failures of every property, element and record entry instead of stopping at the first one.
+     * Collected failures are reported together as a single `multiple` error.
+     */
+    all?: boolean;
+    /**
+     * Never write into the input. Objects and arrays that contain a transformed value are shallow-cloned instead,
+     * while untransformed ones are returned as is.
+     */
+    copy?: boolean;
+    /**
+     * What to do with the keys of an object that are not present in its object schema.
+     * Either keep them (`allow`, default), fail the validation (`strict`), or remove them (`strip`).
+     */
+    unknown?: "allow" | "strict" | "strip";
+};
+
+export type TypedArray =
+    | Int8Array
+    | Uint8Array
+    | Uint8ClampedArray
+    | Int16Array
+    | Uint16Array
+    | Int32Array
+    | Uint32Array
+    | Float32Array
+    | Float64Array
+    | BigInt64Array
+    | BigUint64Array;
 
 /**
- * Prepends a path key to the current path if the error is a ValidationError and rethrows the error.
- * Used for rethrowing errors thrown by nested validators.
+ * Constraints of `number` and `integer`. All the bounds are optional and can be combined.
+ * @see {@link number}
  */
-export const rethrow = <T>(e: T, path: string | number): never => {
-    if (e instanceof ValidationError) {
-        e.info.path.push(path);
+export type NumberBounds = {
+    /** The smallest allowed value */
+    min?: number;
+    /** The largest allowed value */
+    max?: number;
+    /** A value that every allowed value is greater than */
+    exclusiveMin?: number;
+    /** A value that every allowed value is less than */
+    exclusiveMax?: number;
+    /** A positive value that every allowed value is a multiple of */
+    multipleOf?: number;
+};
+
+/**
+ * Constraints of `string`. Lengths are measured in UTF-16 code units, just like `String.prototype.length` does.
+ * @see {@link string}
+ */
+export type StringBounds = { minLength?: number; maxLength?: number };
+
+/**
+ * A well-known format of strings, such as the ones of `picostruct/string-formats`, which tools can tell from a plain `string`.
+ */
+export type StringFormat = {
+    /** A name for the `format` keyword of JSON Schema, such as `date-time` */
+    name: string;
+    /** How the format is reported in `expected` errors, such as `iso datetime` */
+    expected: string;
+    /** A string in the format, used wherever a valid value is needed */
+    example: string;
+};
+
+/**
+ * Constraints of `array`.
+ * @see {@link array}
+ */
+export type ArrayBounds = {
+    minItems?: number;
+    maxItems?: number;
+    /**
+     * Disallow duplicate elements. Elements are compared with the SameValueZero algorithm,
+     * either by themselves or by the keys that a function returns for them.
+     */
+    unique?: boolean | ((x: any) => unknown);
+};
+
+/**
+ * Describes how a standard validator has been constructed, so that tools can inspect schemas.
+ * @see {@link definition}
+ */
+export type Definition =
+    | { kind: "string"; regex?: RegExp; bounds?: StringBounds; format?: StringFormat }
+    | { kind: "number" | "integer"; bounds?: NumberBounds }
+    | { kind: "boolean" }
+    | { kind: "date" }
+    | { kind: "bigint" }
+    | { kind: "symbol" }
+    | { kind: "instanceOf"; type: abstract new (...args: any) => any }
+    | { kind: "typedArray"; type?: abstract new (...args: any) => TypedArray }
+    | { kind: "any" }
+    | { kind: "never" }
+    | { kind: "maybe" | "nullable" | "nullish"; schema: Schema<any>; default: any }
+    | { kind: "struct"; schema: Schema<any>; options?: Options }
+    | { kind: "record" | "mapOf"; key: Schema<any>; value: Schema<any> }
+    | { kind: "setOf"; schema: Schema<any> }
+    | { kind: "array"; schema: Schema<any>; bounds?: ArrayBounds }
+    | { kind: "tuple"; elements: Schema<any>[]; rest?: Schema<any> }
+    | { kind: "allOf" | "anyOf" | "oneOf"; schemas: Schema<any>[] }
+    | { kind: "taggedUnion"; key: string; variants: Record<string, Schema<any>> }
+    | { kind: "lazy"; get: () => Schema<any> }
+    | { kind: "map"; schema: Schema<any>; map: (x: any) => any }
+    | { kind: "preprocess"; preprocess: (x: any) => any; schema: Schema<any> }
+    | { kind: "filter"; schema: Schema<any>; filter: (x: any) => boolean; message?: string | ErrorDescription }
+    | { kind: "brand"; schema: Schema<any>; brand: string }
+    | { kind: "annotate"; schema: Schema<any>; annotation: Annotation<any> }
+    | { kind: "catchError"; schema: Schema<any>; fallback: any }
+    | { kind: "withMessage"; schema: Schema<any>; message: string | ErrorDescription | ((info: ErrorInfo) => any) }
+    | { kind: "withMeta"; schema: Schema<any>; meta: Record<string, unknown> };
+
+/**
+ * Definitions of the validators that validate the value itself with a nested schema, such as `maybe`, `brand` or `map`.
+ * Containers such as `array` and `setOf` are not wrappers, since their schema validates the items of the value.
+ * @see {@link isWrapper}
+ */
+export type Wrapper = Exclude<Extract<Definition, { schema: Schema<any> }>, { kind: "array" | "setOf" }>;
+
+/**
+ * Outcome of a non-throwing validation.
+ * @see {@link safeValidate}
+ */
+export type SafeResult<T> = { ok: true; value: T } | { ok: false; error: ErrorInfo };
+
+/**
+ * Returns the definition of a standard validator, or `undefined` if the validator is a custom one.
+ * @example
+ * definition(string(/^a/)); // returns { kind: "string", regex: /^a/ }
+ * definition(x => x); // returns undefined
+ * @param validator A validator to inspect
+ */
+export const definition = (validator: Validator<any>): Definition | undefined => definitions.get(validator);
+
+/**
+ * Checks whether a definition, or a node of `describe`, is the one of a wrapper,
+ * so that tools can look through the wrappers that they do not handle on their own.
+ * @example
+ * const def = definition(brand(string(), "Id"));
+ * if (isWrapper(def)) def.schema; // the string validator
+ * @param def A definition to inspect
+ */
+export const isWrapper = <D extends { kind: string }>(
+    def: D | undefined,
+): def is Extract<D, { kind: Wrapper["kind"] }> =>
+    !!def && "schema" in def && def.kind !== "array" && def.kind !== "setOf";
+
+/**
+ * Creates the validator that a wrapper definition describes, such as one whose schema has been replaced.
+ * @example
+ * const def = definition(brand(string(), "Id"));
+ * if (isWrapper(def)) wrap({ ...def, schema: string({ minLength: 1 }) }); // brand(string({ minLength: 1 }), "Id")
+ * @param def A definition of a wrapper
+ */
+export const wrap = (def: Wrapper): Validator<any, any> => {
+    switch (def.kind) {
+        case "maybe":
+        case "nullable":
+        case "nullish":
+            return ({ maybe, nullable, nullish }[def.kind] as typeof maybe)(def.schema, def.default);
+        case "struct":
+            return struct(def.schema, def.options);
+        case "map":
+            return map(def.schema, def.map);
+        case "preprocess":
+            return preprocess(def.preprocess, def.schema);
+        case "filter":
+            return filter(def.schema, def.filter, def.message);
+        case "brand":
+            return brand(def.schema, def.brand);
+        case "annotate":
+            return annotate(def.schema, def.annotation);
+        case "catchError":
+            return catchError(def.schema, def.fallback);
+        case "withMessage":
+            return withMessage(def.schema, def.message);
+        case "withMeta":
+            return withMeta(def.schema, def.meta);
+    }
+};
+
+const optional = (schema: Schema<any>, seen: Set<Schema<any>>): boolean => {
+    if (typeof schema !== "function") return schema === undefined;
+    if (seen.has(schema)) return false;
+    seen.add(schema);
+
+    let def = definition(schema);
+    switch (def?.kind) {
+        case "maybe":
+        case "nullish":
+        case "any":
+        case "catchError":
+            return true;
+        case "lazy":
+            return optional(def.get(), seen);
+        case "anyOf":
+        case "oneOf":
+            return def.schemas.some(x => optional(x, seen));
+        case "allOf":
+            return def.schemas.every(x => optional(x, seen));
+        default:
+            return isWrapper(def) && optional(def.schema, seen);
     }
-    throw e;
 };
 
 /**
- * Fails the validation with a message.
- * A shorthand for `throw new ValidationError(message)` that can be used in ternaries.
+ * Checks whether a schema accepts a missing value, judging by the definitions of its validators without running them.
+ * Properties with such schemas are optional, and so are the trailing elements of a tuple. Custom validators require a value.
  * @example
- * const validator = map(number(), x => x > 5 ? x : fail("expected a value greater than 5"));
- * validator(6); // throws a ValidationError
- * @param message A message to pass to the `ValidationError` constructor
+ * isOptional(maybe(string())); // returns true
+ * isOptional(annotate(nullish(number()), { description: "" })); // returns true
+ * isOptional(x => x); // returns false
+ * @param schema A schema to inspect
  */
-export const fail = (message: string | ErrorDescription): never => {
-    throw new ValidationError(
-        typeof message === "string" ? { type: "custom", path: [], message } : { ...message, path: [] },
-    );
+export const isOptional = (schema: Schema<any>): boolean => optional(schema, new Set());
+
+/**
+ * Turns an error of a key validator into a `key` error, so that it can be told apart from the errors of the value.
+ */
+const keyError = (e: unknown) => {
+    if (e instanceof ValidationError) {
+        e.info = { type: "key", path: [], error: e.info };
+    }
+    return e;
 };
 
 /**
@@ -65,15 +357,19 @@ export const fail = (message: string | ErrorDescription): never => {
  *
  * Whether the result is the same as the input is unspecified and left up to validator's implementation.
  * Despite that, all the standard validators are expected to return the same object for performance reasons, unless specified otherwise..
- * Note that this means that transforming validators with mutate the input.
+ * Note that this means that transforming validators with mutate the input, unless the `copy` option is set.
  * @example
  * validate(5, number()); // returns 5
  * validate({}, { x: number() }); // throws ValidationError
+ * validate({}, { x: number(), y: number() }, { all: true }); // throws ValidationError with both failures
  * @param x What to validate?
  * @param schema A description of how to validate/transform the object.
+ * @param [options] Options for this validation and every validation nested in it.
  */
-export const validate = <const T extends Schema<any>>(x: any, schema: T): Result<T> => {
-    if (typeof schema === "function") {
+export const validate = <const T extends Schema<any>>(x: any, schema: T, options?: Options): Result<T> => {
+    if (options) {
+        return withOptions(options, () => validate(x, schema));
+    } else if (typeof schema === "function") {
         return schema(x) as Result<T>;
     } else if (typeof schema === "object" && schema) {
         if (
@@ -83,20 +379,131 @@ export const validate = <const T extends Schema<any>>(x: any, schema: T): Result
         )
             throw fail({ type: "expected", expected: Array.isArray(schema) ? `array[${schema.length}]` : "object" });
 
+        let y = x;
+        let errors: ErrorInfo[] = [];
         for (let i in schema) {
             try {
-                x[i] = validate(x[i], schema[i as keyof typeof schema]);
+                y = assign(x, y, i, validate(x[i], schema[i as keyof typeof schema]));
             } catch (e) {
-                rethrow(e, i);
+                collect(errors, e, i);
             }
         }
-        return x;
+
+        if (!Array.isArray(schema)) y = unknowns(x, y, schema, errors);
+        return errors.length ? fail({ type: "multiple", errors }) : y;
     } else {
         if (x !== schema) throw fail({ type: "expected", expected: JSON.stringify(schema) });
         return x;
     }
 };
 
+/**
+ * Fails the validation if `actual`, which is either a number or a length, is out of the bounds.
+ */
+const range = (
+    subject: "number" | "string" | "array",
+    actual: number,
+    min?: number,
+    max?: number,
+    exclusive = false,
+) => {
+    if (min !== undefined && (exclusive ? actual <= min : actual < min))
+        fail({ type: "too_small", subject, min, actual, exclusive });
+    if (max !== undefined && (exclusive ? actual >= max : actual > max))
+        fail({ type: "too_big", subject, max, actual, exclusive });
+};
+
+/**
+ * Throws if `multipleOf` is not a positive finite number. Zero, infinities and NaNs would let every number pass the check.
+ * Called when a validator is created, rather than on every validation.
+ */
+const checkBounds = (bounds?: NumberBounds) => {
+    let multipleOf = bounds?.multipleOf;
+    if (multipleOf !== undefined && !(multipleOf > 0 && multipleOf < Infinity))
+        throw new Error(`multipleOf must be a positive finite number, got ${multipleOf}`);
+};
+
+/**
+ * Fails the validation if a number does not satisfy the bounds. Returns the number otherwise.
+ */
+const bounded = (x: number, bounds?: NumberBounds) => {
+    if (!bounds) return x;
+
+    let { min, max, exclusiveMin, exclusiveMax, multipleOf } = bounds;
+    range("number", x, min, max);
+    range("number", x, exclusiveMin, exclusiveMax, true);
+    if (multipleOf !== undefined) {
+        let quotient = x / multipleOf;
+        // tolerates rounding errors, such as 0.3 / 0.1 === 2.9999999999999996
+        if (Math.abs(quotient - Math.round(quotient)) > Number.EPSILON * Math.abs(quotient))
+            fail({ type: "not_multiple", multipleOf, actual: x });
+    }
+    return x;
+};
+
+/**
+ * Fails the validation if an array contains a duplicate. The failure is reported at the index of the duplicate.
+ */
+const distinct = (x: any[], unique: true | ((x: any) => unknown)) => {
+    let seen = new Map<unknown, number>();
+    for (let i = 0; i < x.length; i++) {
+        let key = unique === true ? x[i] : unique(x[i]);
+        let index = seen.get(key);
+        if (index !== undefined) rethrow(new ValidationError({ type: "duplicate", index, path: [] }), i);
+        seen.set(key, i);
+    }
+};
+
+/**
+ * Validates the `object` just like `validate` does, but reports a failure by returning it instead of throwing.
+ * Exceptions that are not a `ValidationError` are still thrown.
+ * @see {@link validate}
+ * @example
+ * safeValidate(5, number()); // returns { ok: true, value: 5 }
+ * safeValidate({}, { x: number() }); // returns { ok: false, error: { type: "expected", expected: "finite number", path: ["x"] } }
+ * @param x What to validate?
+ * @param schema A description of how to validate/transform the object.
+ * @param [options] Options for this validation and every validation nested in it.
+ */
+export const safeValidate = <const T extends Schema<any>>(
+    x: any,
+    schema: T,
+    options?: Options,
+): SafeResult<Result<T>> => {
+    try {
+        return { ok: true, value: validate(x, schema, options) };
+    } catch (e) {
+        if (e instanceof ValidationError) return { ok: false, error: e.info };
+        throw e;
+    }
+};
+
+/**
+ * Wraps a schema into a function that validates its input with `safeValidate`.
+ * @see {@link safeValidate}
+ * @example
+ * const validator = safe(number());
+ * const result = validator("5");
+ * if (!result.ok) console.log(result.error.path);
+ * @param schema A description of how to validate/transform the object.
+ * @param [options] Options for every validation performed by the wrapper.
+ */
+export const safe =
+    <const T extends Schema<any>>(schema: T, options?: Options): ((object: any) => SafeResult<Result<T>>) =>
+    x =>
+        safeValidate(x, schema, options);
+
+/**
+ * Declares the type of the input a custom validator accepts, which is `unknown` otherwise.
+ * Returns the validator as is, since the declaration exists only on the type level.
+ * @see {@link Input}
+ * @example
+ * const timestamp = accepts((x: string | number) => new Date(validate(x, anyOf(string(), number()))));
+ * type In = Input<typeof timestamp>; // string | number
+ * @param validator A custom validator
+ */
+export const accepts = <I, T>(validator: (x: I) => T): Validator<T, I> => validator as Validator<T, I>;
+
 /**
  * Maps the resulting value for additional refinement or transformation
  * @example
@@ -110,10 +517,8 @@ export const validate = <const T extends Schema<any>>(x: any, schema: T): Result
  * @param schema A validator for the input of the mapping
  * @param map The mapping itself
  */
-export const map =
-    <const T extends Schema<any>, U>(schema: T, map: (x: Result<T>) => U): Validator<U> =>
-    x =>
-        map(validate(x, schema));
+export const map = <const T extends Schema<any>, U>(schema: T, map: (x: Result<T>) => U): Validator<U, Input<T>> =>
+    define(x => map(validate(x, schema)), { kind: "map", schema, map });
 
 /**
  * Filters the resulting value for additional refinement based on a specified predicate
@@ -123,62 +528,370 @@ export const map =
  * @param schema A validator for the input of the mapping
  * @param filter The predicate itself
  */
-export const filter =
-    <const T extends Schema<any>>(
+export const filter = <const T extends Schema<any>>(
+    schema: T,
+    filter: (x: Result<T>) => boolean,
+    message?: string | ErrorDescription,
+): Validator<Result<T>, Input<T>> =>
+    define(x => (filter((x = validate(x, schema))) ? x : fail(message || "filter failed")), {
+        kind: "filter",
+        schema,
+        filter,
+        message,
+    });
+
+/**
+ * Creates a validator that handles a `ValidationError` thrown by its schema.
+ * The error keeps the path collected by `rethrow` below the validator, other errors are rethrown as is.
+ */
+const recover = (schema: Schema<any>, handle: (e: ValidationError, x: any) => any, definition: Definition) =>
+    define(x => {
+        try {
+            return validate(x, schema);
+        } catch (e) {
+            if (!(e instanceof ValidationError)) throw e;
+            return handle(e, x);
+        }
+    }, definition);
+
+/**
+ * Substitutes a fallback value for any value that the schema rejects.
+ * @example
+ * const page = catchError(integer({ min: 1 }), 1);
+ * page("abc"); // returns 1
+ * @example
+ * const settings = catchError(settingsSchema, (info, x) => (log(formatError(info)), defaults()));
+ * @param schema A schema to validate the value with
+ * @param fallback The fallback value. A function is called with the error and the input to make the value instead
+ */
+export const catchError: {
+    <const T extends Schema<any>, D>(
         schema: T,
-        filter: (x: Result<T>) => boolean,
-        message?: string | ErrorDescription,
-    ): Validator<Result<T>> =>
-    x =>
-        filter((x = validate(x, schema))) ? x : fail(message || "filter failed");
+        fallback: (info: ErrorInfo, x: unknown) => D,
+    ): Validator<Result<T> | D, Input<T>>;
+    <const T extends Schema<any>, D>(schema: T, fallback: D): Validator<Result<T> | D, Input<T>>;
+} = (schema: Schema<any>, fallback: any): Validator<any, any> =>
+    recover(schema, (e, x) => (typeof fallback === "function" ? fallback(e.info, x) : fallback), {
+        kind: "catchError",
+        schema,
+        fallback,
+    });
+
+/**
+ * Replaces the description of any error that the schema fails with, keeping its path and its metadata.
+ * @example
+ * const zip = withMessage(string(/^\d{5}$/), "expected a zip code of five digits");
+ * @example
+ * const age = withMessage(integer({ min: 18 }), info => (info.type === "too_small" ? "must be an adult" : info));
+ * @param schema A schema to validate the value with
+ * @param message A message, an error description, or a function that makes one out of the original error
+ */
+export const withMessage = <const T extends Schema<any>>(
+    schema: T,
+    message: string | ErrorDescription | ((info: ErrorInfo) => string | ErrorDescription),
+): Validator<Result<T>, Input<T>> =>
+    recover(
+        schema,
+        e => {
+            let { path, meta } = e.info;
+            let description = typeof message === "function" ? message(e.info) : message;
+            e.info =
+                typeof description === "string"
+                    ? { type: "custom", message: description, path }
+                    : { ...description, path };
+            if (meta) e.info.meta = meta;
+            throw e;
+        },
+        { kind: "withMessage", schema, message },
+    );
+
+/**
+ * Merges metadata into an error and the errors nested into it, keeping the metadata that is already there.
+ */
+const tag = (info: ErrorInfo, meta: Record<string, unknown>) => {
+    info.meta = { ...meta, ...info.meta };
+    let nested =
+        info.type === "multiple"
+            ? info.errors
+            : info.type === "union"
+              ? info.failures
+              : info.type === "key"
+                ? [info.error]
+                : [];
+    for (let x of nested) tag(x, meta);
+};
+
+/**
+ * Attaches metadata, such as an error code, to every error that the schema fails with.
+ * Metadata attached by nested `withMeta` validators takes precedence.
+ * @example
+ * const user = struct({ email: withMeta(string(), { code: "E_EMAIL" }) });
+ * safeValidate({ email: 0 }, user); // returns { ok: false, error: { ..., path: ["email"], meta: { code: "E_EMAIL" } } }
+ * @param schema A schema to validate the value with
+ * @param meta The metadata
+ */
+export const withMeta = <const T extends Schema<any>>(
+    schema: T,
+    meta: Record<string, unknown>,
+): Validator<Result<T>, Input<T>> =>
+    recover(
+        schema,
+        e => {
+            tag(e.info, meta);
+            throw e;
+        },
+        { kind: "withMeta", schema, meta },
+    );
+
+/**
+ * Brands the result of a schema with a nominal type, so that only a successful validation can produce the value.
+ * Validates exactly like the schema itself.
+ * @example
+ * const userId = brand(string(/^u_\w+$/), "UserId");
+ * const user = struct({ id: userId, friends: array(userId) });
+ * const load = (id: Result<typeof userId>) => {};
+ * load(user(json).id); // ok
+ * load("u_1"); // type error
+ * @param schema A schema to brand
+ * @param brand The name of the brand
+ */
+export const brand = <const T extends Schema<any>, B extends string>(
+    schema: T,
+    brand: B,
+): Validator<Brand<Result<T>, B>, Input<T>> =>
+    define(x => validate(x, schema) as Brand<Result<T>, B>, { kind: "brand", schema, brand });
+
+/**
+ * Attaches a description and an example to a schema, to be picked up by documentation tools.
+ * Validates exactly like the schema itself.
+ * @see {@link Annotation}
+ * @example
+ * const email = annotate(string(/^\S+@\S+$/), { description: "Where receipts are sent", example: "jane@example.com" });
+ * definition(email); // returns { kind: "annotate", annotation: { description: "Where receipts are sent", ... }, ... }
+ * @param schema A schema to annotate
+ * @param annotation The description and the example
+ */
+export const annotate = <const T extends Schema<any>>(
+    schema: T,
+    annotation: Annotation<Input<T>>,
+): Validator<Result<T>, Input<T>> => define(x => validate(x, schema), { kind: "annotate", schema, annotation });
+
+/**
+ * Removes the brand of a value on the type level, which is always safe. Returns the value as is.
+ * @example
+ * const id: string = unbrand(userId("u_1")); // string, not Brand<string, "UserId">
+ * @param x A branded value
+ */
+export const unbrand = <T>(x: T): Unbrand<T> => x as Unbrand<T>;
 
 /**
  * Ensures that a value is a string
+ * @example
+ * string(/^[a-z]+$/, { maxLength: 16 });
+ * string({ minLength: 1 });
  * @param regex An optional `RegExp`. Ensures that a value matches said regular expression
+ * @param bounds Optional length constraints
  */
-export const string =
-    (regex?: RegExp): Validator<string> =>
-    x =>
-        typeof x === "string" && (!regex || regex.test(x))
-            ? x
-            : fail({
-                  type: "expected",
-                  expected: `string${regex ? ` matching ${regex}` : ""}`,
-              });
+export const string: {
+    (regex?: RegExp, bounds?: StringBounds): Validator<string, string>;
+    (bounds: StringBounds): Validator<string, string>;
+} = (pattern?: RegExp | StringBounds, bounds?: StringBounds): Validator<string, string> => {
+    if (pattern && !(pattern instanceof RegExp)) bounds = pattern;
+    let regex = pattern instanceof RegExp ? pattern : undefined;
+
+    return define(
+        x => {
+            if (typeof x !== "string" || (regex && !regex.test(x)))
+                throw fail({
+                    type: "expected",
+                    expected: `string${regex ? ` matching ${regex}` : ""}`,
+                });
+
+            range("string", x.length, bounds?.minLength, bounds?.maxLength);
+            return x;
+        },
+        { kind: "string", regex, bounds },
+    );
+};
 
 /**
  * Ensures that a value is a finite number.
  * Disallows infinities and NaNs
+ * @example
+ * number({ min: 0, exclusiveMax: 1 });
+ * @param bounds Optional constraints
  */
-export const number = (): Validator<number> => x =>
-    Number.isFinite(x) ? x : fail({ type: "expected", expected: "finite number" });
+export const number = (bounds?: NumberBounds): Validator<number, number> => {
+    checkBounds(bounds);
+    return define(
+        x => (Number.isFinite(x) ? bounded(x, bounds) : fail({ type: "expected", expected: "finite number" })),
+        { kind: "number", bounds },
+    );
+};
 
 /**
  * Ensures that a value is an integer
+ * @example
+ * integer({ min: 1, multipleOf: 2 });
+ * @param bounds Optional constraints
  */
-export const integer = (): Validator<number> => x =>
-    Number.isInteger(x) ? x : fail({ type: "expected", expected: "integer" });
+export const integer = (bounds?: NumberBounds): Validator<number, number> => {
+    checkBounds(bounds);
+    return define(x => (Number.isInteger(x) ? bounded(x, bounds) : fail({ type: "expected", expected: "integer" })), {
+        kind: "integer",
+        bounds,
+    });
+};
 
 /**
  * Ensures that a value is a boolean
  */
-export const boolean = (): Validator<boolean> => x =>
-    typeof x === "boolean" ? x : fail({ type: "expected", expected: "boolean" });
+export const boolean = (): Validator<boolean, boolean> =>
+    define(x => (typeof x === "boolean" ? x : fail({ type: "expected", expected: "boolean" })), { kind: "boolean" });
+
+/**
+ * Ensures that a value is a valid `Date`. Disallows invalid dates, such as `new Date("")`
+ */
+export const date = (): Validator<Date, Date> =>
+    define(
+        x =>
+            x instanceof Date
+                ? Number.isNaN(x.getTime())
+                    ? fail({ type: "expected", expected: "valid Date" })
+                    : x
+                : fail({ type: "expected", expected: "Date" }),
+        { kind: "date" },
+    );
+
+/**
+ * Ensures that a value is a bigint
+ */
+export const bigint = (): Validator<bigint, bigint> =>
+    define(x => (typeof x === "bigint" ? x : fail({ type: "expected", expected: "bigint" })), { kind: "bigint" });
+
+/**
+ * Ensures that a value is a symbol
+ */
+export const symbol = (): Validator<symbol, symbol> =>
+    define(x => (typeof x === "symbol" ? x : fail({ type: "expected", expected: "symbol" })), { kind: "symbol" });
+
+/**
+ * Ensures that a value is an instance of a class, as `instanceof` says.
+ * @example
+ * const validator = instanceOf(URL);
+ * validator(new URL("https://example.com")); // returns the URL
+ * @param type The class itself
+ */
+export const instanceOf = <T extends abstract new (...args: any) => any>(
+    type: T,
+): Validator<InstanceType<T>, InstanceType<T>> =>
+    define(x => (x instanceof type ? x : fail({ type: "expected", expected: `instance of ${type.name}` })), {
+        kind: "instanceOf",
+        type,
+    });
+
+/**
+ * Ensures that a value is a typed array, such as an `Uint8Array`.
+ * @example
+ * typedArray(Uint8Array); // accepts only instances of Uint8Array
+ * typedArray(); // accepts typed arrays of any kind, but not a DataView
+ * @param [type] An optional kind of the typed array
+ */
+export const typedArray = <T extends TypedArray = TypedArray>(
+    type?: abstract new (...args: any) => T,
+): Validator<T, T> =>
+    define(
+        x =>
+            (type ? x instanceof type : ArrayBuffer.isView(x) && !(x instanceof DataView))
+                ? x
+                : fail({ type: "expected", expected: type ? type.name : "typed array" }),
+        { kind: "typedArray", type },
+    );
+
+/**
+ * Creates the validators that allow a value to be missing, either returning a default value or the missing value as is.
+ * A function passed as the default value is called for every missing value, so that objects are not shared.
+ */
+const missing =
+    (kind: "maybe" | "nullable" | "nullish", test: (x: unknown) => boolean) =>
+    (schema: Schema<any>, default_?: any): Validator<any, any> =>
+        define(
+            x =>
+                test(x)
+                    ? default_ === undefined
+                        ? x
+                        : typeof default_ === "function"
+                          ? default_()
+                          : default_
+                    : validate(x, schema),
+            { kind, schema, default: default_ },
+        );
 
 /**
  * Ensures that a value is of a specified type, but allows the value to be `undefined`.
  * If second argument is present, the validator returns that as a "default" value
  * when a value is not present, otherwise it returns `undefined`
+ * @example
+ * // a fresh array for every missing value
+ * const tags = maybe(array(string()), () => []);
  * @param schema Ensures that the elements are of this type
- * @param [default_] Default value, returned by the validator if a value is not present
+ * @param [default_] Default value, returned by the validator if a value is not present.
+ * A function is called to make a new default value every time
  */
 export const maybe: {
-    <const T extends Schema<any>>(schema: T): Validator<Result<T> | undefined>;
-    <const T extends Schema<any>, D>(schema: T, default_: D): Validator<Result<T> | D>;
-} =
-    <const T>(schema: T, default_?: any): Validator<Result<T> | any> =>
-    x =>
-        typeof x === "undefined" ? default_ : validate(x, schema);
+    <const T extends Schema<any>>(schema: T): Validator<Result<T> | undefined, Input<T> | undefined>;
+    <const T extends Schema<any>, D>(schema: T, default_: () => D): Validator<Result<T> | D, Input<T> | undefined>;
+    <const T extends Schema<any>, D>(schema: T, default_: D): Validator<Result<T> | D, Input<T> | undefined>;
+} = missing("maybe", x => x === undefined);
+
+/**
+ * Ensures that a value is of a specified type, but allows the value to be `null`.
+ * If second argument is present, the validator returns that instead of `null`
+ * @see {@link maybe}
+ * @param schema Ensures that the elements are of this type
+ * @param [default_] Default value, returned by the validator if a value is `null`.
+ * A function is called to make a new default value every time
+ */
+export const nullable: {
+    <const T extends Schema<any>>(schema: T): Validator<Result<T> | null, Input<T> | null>;
+    <const T extends Schema<any>, D>(schema: T, default_: () => D): Validator<Result<T> | D, Input<T> | null>;
+    <const T extends Schema<any>, D>(schema: T, default_: D): Validator<Result<T> | D, Input<T> | null>;
+} = missing("nullable", x => x === null);
+
+/**
+ * Ensures that a value is of a specified type, but allows the value to be either `null` or `undefined`,
+ * such as for columns of database rows
+ * If second argument is present, the validator returns that instead of a missing value
+ * @see {@link maybe}
+ * @example
+ * const row = struct({ id: integer(), deletedAt: nullish(date()), tags: nullish(array(string()), () => []) });
+ * row({ id: 1, deletedAt: null, tags: null }); // returns { id: 1, deletedAt: null, tags: [] }
+ * @param schema Ensures that the elements are of this type
+ * @param [default_] Default value, returned by the validator if a value is missing.
+ * A function is called to make a new default value every time
+ */
+export const nullish: {
+    <const T extends Schema<any>>(schema: T): Validator<Result<T> | null | undefined, Input<T> | null | undefined>;
+    <const T extends Schema<any>, D>(
+        schema: T,
+        default_: () => D,
+    ): Validator<Result<T> | D, Input<T> | null | undefined>;
+    <const T extends Schema<any>, D>(schema: T, default_: D): Validator<Result<T> | D, Input<T> | null | undefined>;
+} = missing("nullish", x => x == null);
+
+/**
+ * Runs a function on a value before it is validated, such as to trim strings or to turn `null` into `undefined`.
+ * The input type of the validator is the parameter type of the function.
+ * @example
+ * const name = preprocess((x: unknown) => (typeof x === "string" ? x.trim() : x), string({ minLength: 1 }));
+ * const note = preprocess((x: unknown) => (x === null ? undefined : x), maybe(string(), ""));
+ * @param preprocess A function that receives the input
+ * @param schema A schema that validates the result of the function
+ */
+export const preprocess = <I, const T extends Schema<any>>(
+    preprocess: (x: I) => unknown,
+    schema: T,
+): Validator<Result<T>, I> => define(x => validate(preprocess(x), schema), { kind: "preprocess", preprocess, schema });
 
 /**
  * Ensures that a value matches the specified type.
@@ -187,11 +900,173 @@ export const maybe: {
  * @see {@link record}
  * @see {@link validate}
  * @param schema Ensures that a value is of this type
+ * @param [options] Options for every validation performed by the validator
  */
-export const struct =
-    <const T extends Schema<any>>(schema: T): Validator<Result<T>> =>
-    x =>
-        validate(x, schema);
+export const struct = <const T extends Schema<any>>(schema: T, options?: Options): Struct<T> =>
+    define(x => validate(x, schema, options), { kind: "struct", schema, options }) as Struct<T>;
+
+/**
+ * Ensures that a value matches the specified type and that its objects have no keys besides the ones in the schema.
+ * A shorthand for `struct(schema, { unknown: "strict" })`, applies to nested object schemas as well.
+ * @see {@link struct}
+ * @example
+ * const validator = strict({ x: string() });
+ * validator({ x: "y", y: "z" }); // throws a ValidationError
+ * @param schema Ensures that a value is of this type
+ */
+export const strict = <const T extends Schema<any>>(schema: T): Struct<T> => struct(schema, { unknown: "strict" });
+
+/**
+ * Ensures that a value matches the specified type and removes the keys that are not in the schema from its objects.
+ * A shorthand for `struct(schema, { unknown: "strip" })`, applies to nested object schemas as well.
+ * @see {@link struct}
+ * @example
+ * const validator = strip({ x: string() });
+ * validator({ x: "y", y: "z" }); // returns { x: "y" }
+ * @param schema Ensures that a value is of this type
+ */
+export const strip = <const T extends Schema<any>>(schema: T): Struct<T> => struct(schema, { unknown: "strip" });
+
+type Shape = Record<string, Schema<any>>;
+type ShapeOf<T> = T extends Struct<infer S> ? S : T;
+type Derived<T, S> = T extends Struct<any> ? Struct<{ [K in keyof S]: S[K] }> : { [K in keyof S]: S[K] };
+type Optional<T> = { [K in keyof T]: Validator<Result<T[K]> | undefined, Input<T[K]> | undefined> };
+type DeepOptional<T> = Optional<{
+    [K in keyof T]: T[K] extends Struct<infer S extends Shape>
+        ? DeepOptional<S>
+        : T[K] extends (object: any) => any
+          ? T[K]
+          : T[K] extends readonly any[]
+            ? T[K]
+            : T[K] extends Shape
+              ? DeepOptional<T[K]>
+              : T[K];
+}>;
+
+/**
+ * Returns the object schema of a `struct`, or the schema itself.
+ */
+const shapeOf = (schema: any): Shape => {
+    let def = definition(schema);
+    return def?.kind === "struct" ? shapeOf(def.schema) : schema;
+};
+
+/**
+ * Derives a new object schema from an object schema, or from the object schema of a `struct`.
+ * A schema derived from a `struct` is wrapped into a `struct` with the same options.
+ */
+const derive = (schema: any, fn: (shape: Shape) => Shape): any => {
+    let def = definition(schema);
+    return def?.kind === "struct" ? struct(derive(def.schema, fn), def.options) : fn(schema);
+};
+
+const mapShape = (shape: Shape, fn: (schema: Schema<any>) => Schema<any>) =>
+    Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, fn(schema)]));
+
+/**
+ * Makes every property of an object schema optional by wrapping its schema into a `maybe`.
+ * Works on object schemas and on the ones wrapped by `struct`, in which case the result is a `struct` as well.
+ * @see {@link maybe}
+ * @example
+ * const user = struct({ name: string(), age: integer() });
+ * const patch = partial(user); // accepts { age: 5 }
+ * @param schema An object schema or a `struct` of one
+ */
+export const partial = <const T extends Shape | Struct<Shape>>(schema: T): Derived<T, Optional<ShapeOf<T>>> =>
+    derive(schema, shape => mapShape(shape, x => (isOptional(x) ? x : maybe(x))));
+
+/**
+ * Unwraps the `maybe` that a schema is wrapped into, looking through the other wrappers, such as `annotate`,
+ * which are rebuilt around the unwrapped schema. A `nullish` is turned into a `nullable`.
+ */
+const demand = (x: Schema<any>): Schema<any> => {
+    let def = typeof x === "function" ? definition(x) : undefined;
+    return def?.kind === "maybe"
+        ? def.schema
+        : def?.kind === "nullish"
+          ? nullable(def.schema, def.default)
+          : isWrapper(def) && isOptional(x)
+            ? wrap({ ...def, schema: demand(def.schema) })
+            : x;
+};
+
+/**
+ * Makes every optional property of an object schema required by unwrapping the `maybe` its schema is wrapped into,
+ * even when the `maybe` is wrapped into other validators, such as `annotate` or `brand`.
+ * A `nullish` is turned into a `nullable`, so that it still accepts `null`. Other schemas are kept as is.
+ * @see {@link partial}
+ * @param schema An object schema or a `struct` of one
+ */
+export const required = <const T extends Shape | Struct<Shape>>(
+    schema: T,
+): Derived<
+    T,
+    {
+        [K in keyof ShapeOf<T>]: Validator<
+            Exclude<Result<ShapeOf<T>[K]>, undefined>,
+            Exclude<Input<ShapeOf<T>[K]>, undefined>
+        >;
+    }
+> => derive(schema, shape => mapShape(shape, demand));
+
+/**
+ * Keeps only the specified properties of an object schema.
+ * @example
+ * const credentials = pick(user, ["email", "password"]);
+ * @param schema An object schema or a `struct` of one
+ * @param keys Properties to keep
+ */
+export const pick = <const T extends Shape | Struct<Shape>, const K extends keyof ShapeOf<T> & string>(
+    schema: T,
+    keys: K[],
+): Derived<T, Pick<ShapeOf<T>, K>> =>
+    derive(schema, shape =>
+        Object.fromEntries(keys.filter(key => Object.hasOwn(shape, key)).map(key => [key, shape[key]])),
+    );
+
+/**
+ * Removes the specified properties from an object schema.
+ * @example
+ * const publicUser = omit(user, ["password"]);
+ * @param schema An object schema or a `struct` of one
+ * @param keys Properties to remove
+ */
+export const omit = <const T extends Shape | Struct<Shape>, const K extends keyof ShapeOf<T> & string>(
+    schema: T,
+    keys: K[],
+): Derived<T, Omit<ShapeOf<T>, K>> =>
+    derive(schema, shape => Object.fromEntries(Object.entries(shape).filter(([key]) => !keys.includes(key as K))));
+
+/**
+ * Merges the properties of two object schemas. Properties of `more` override the ones of `base`.
+ * If `base` is a `struct`, the result is a `struct` with the same options, regardless of `more`.
+ * @example
+ * const response = extend(user, { id: integer(), createdAt: date() });
+ * @param base An object schema or a `struct` of one
+ * @param more Properties to add, either an object schema or a `struct` of one
+ */
+export const extend = <const T extends Shape | Struct<Shape>, const U extends Shape | Struct<Shape>>(
+    base: T,
+    more: U,
+): Derived<T, Omit<ShapeOf<T>, keyof ShapeOf<U>> & ShapeOf<U>> =>
+    derive(base, shape => ({ ...shape, ...shapeOf(more) }));
+
+/**
+ * Makes every property of an object schema optional, just like `partial` does,
+ * as well as the properties of nested object schemas and of nested `struct`s.
+ * Schemas of other kinds, such as `array`s, are kept as is.
+ * @see {@link partial}
+ * @param schema An object schema or a `struct` of one
+ */
+export const deepPartial = <const T extends Shape | Struct<Shape>>(schema: T): Derived<T, DeepOptional<ShapeOf<T>>> =>
+    derive(schema, shape =>
+        mapShape(shape, x => {
+            if (isOptional(x)) return x;
+
+            let nested = shapeOf(x);
+            return maybe(typeof nested === "object" && nested && !Array.isArray(nested) ? deepPartial(x as Shape) : x);
+        }),
+    );
 
 /**
  * Ensures that a value is an object with keys and values of a specified type.
@@ -202,73 +1077,293 @@ export const struct =
 export const record = <const K extends Schema<number | string | symbol>, const V extends Schema<any>>(
     key: K,
     value: V,
-): Validator<Record<Result<K>, Result<V>>> => {
-    return x => {
-        if (typeof x !== "object" || !x || Array.isArray(x)) throw fail({ type: "expected", expected: "object" });
+): Validator<Record<Result<K>, Result<V>>, Record<Input<K> & PropertyKey, Input<V>>> => {
+    return define(
+        x => {
+            if (typeof x !== "object" || !x || Array.isArray(x)) throw fail({ type: "expected", expected: "object" });
 
-        let y: any = {};
-        for (let i in x) {
-            let v;
-            try {
-                v = validate(x[i], value);
-            } catch (e) {
-                rethrow(e, i);
-            }
-            try {
-                y[validate(i, key)] = v;
-            } catch (e) {
-                if (e instanceof ValidationError) {
-                    e.info = { type: "key", path: [i], error: e.info };
+            let y: any = {};
+            let errors: ErrorInfo[] = [];
+            for (let i in x) {
+                let v;
+                try {
+                    v = validate(x[i], value);
+                } catch (e) {
+                    collect(errors, e, i);
+                }
+                try {
+                    y[validate(i, key)] = v;
+                } catch (e) {
+                    collect(errors, keyError(e), i);
                 }
-                throw e;
             }
-        }
 
-        return y;
-    };
+            return errors.length ? fail({ type: "multiple", errors }) : y;
+        },
+        { kind: "record", key, value },
+    );
 };
 
 /**
- * Ensures that a value is an array and that its elements are of a specific type
+ * Ensures that a value is a `Map` with keys and values of a specified type.
+ * Returns the same `Map`, unless a key or a value has been transformed, in which case a new `Map` is returned.
+ * Failures are reported at the key of the entry if the key is a string or a number, or at the position of the entry otherwise.
+ * Just like in `record`, failures of the key are reported as a `key` error.
+ * @see {@link record}
+ * @param key Ensures that keys of a value are of this type.
+ * @param value Ensures that values of a value are of this type.
+ */
+export const mapOf = <const K extends Schema<any>, const V extends Schema<any>>(
+    key: K,
+    value: V,
+): Validator<Map<Result<K>, Result<V>>, Map<Input<K>, Input<V>>> =>
+    define(
+        x => {
+            if (!(x instanceof Map)) throw fail({ type: "expected", expected: "Map" });
+
+            let entries: [any, any][] = [];
+            let changed = false;
+            let errors: ErrorInfo[] = [];
+            let i = 0;
+            for (let [k, v] of x) {
+                let segment = typeof k === "string" || typeof k === "number" ? k : i;
+                let entry: [any, any] = [k, v];
+                i++;
+                try {
+                    entry[1] = validate(v, value);
+                } catch (e) {
+                    collect(errors, e, segment);
+                }
+                try {
+                    entry[0] = validate(k, key);
+                } catch (e) {
+                    collect(errors, keyError(e), segment);
+                }
+                changed ||= !Object.is(k, entry[0]) || !Object.is(v, entry[1]);
+                entries.push(entry);
+            }
+
+            if (errors.length) throw fail({ type: "multiple", errors });
+            return changed ? new Map(entries) : x;
+        },
+        { kind: "mapOf", key, value },
+    );
+
+/**
+ * Ensures that a value is a `Set` with items of a specified type.
+ * Returns the same `Set`, unless an item has been transformed, in which case a new `Set` is returned.
+ * Failures are reported at the position of the item.
+ * @param schema Ensures that the items are of this type
+ */
+export const setOf = <const T extends Schema<any>>(schema: T): Validator<Set<Result<T>>, Set<Input<T>>> =>
+    define(
+        x => {
+            if (!(x instanceof Set)) throw fail({ type: "expected", expected: "Set" });
+
+            let items: any[] = [];
+            let changed = false;
+            let errors: ErrorInfo[] = [];
+            let i = 0;
+            for (let v of x) {
+                try {
+                    let y = validate(v, schema);
+                    changed ||= !Object.is(v, y);
+                    items.push(y);
+                } catch (e) {
+                    collect(errors, e, i);
+                }
+                i++;
+            }
+
+            if (errors.length) throw fail({ type: "multiple", errors });
+            return changed ? new Set(items) : x;
+        },
+        { kind: "setOf", schema },
+    );
+
+/**
+ * Ensures that a value is an array and that its elements are of a specific type.
+ * The length is checked before the elements are validated, and the uniqueness is checked after.
+ * @example
+ * array(string(), { minItems: 1, unique: true });
  * @param schema Ensures that the elements are of this type
+ * @param bounds Optional constraints
  */
-export const array =
-    <const T extends Schema<any>>(schema: T): Validator<Result<T>[]> =>
-    x => {
-        if (!Array.isArray(x)) throw fail({ type: "expected", expected: "array" });
-        for (let i = 0; i < x.length; i++) {
-            try {
-                x[i] = validate(x[i], schema);
-            } catch (e) {
-                rethrow(e, i);
+export const array = <const T extends Schema<any>>(
+    schema: T,
+    bounds?: ArrayBounds,
+): Validator<Result<T>[], Input<T>[]> =>
+    define(
+        x => {
+            if (!Array.isArray(x)) throw fail({ type: "expected", expected: "array" });
+            range("array", x.length, bounds?.minItems, bounds?.maxItems);
+
+            let y = x;
+            let errors: ErrorInfo[] = [];
+            for (let i = 0; i < x.length; i++) {
+                try {
+                    y = assign(x, y, i, validate(x[i], schema));
+                } catch (e) {
+                    collect(errors, e, i);
+                }
             }
-        }
 
-        return x;
-    };
+            if (errors.length) throw fail({ type: "multiple", errors });
+            if (bounds?.unique) distinct(y, bounds.unique);
+            return y;
+        },
+        { kind: "array", schema, bounds },
+    );
+
+/**
+ * A schema of the trailing elements of a tuple, created by `rest`.
+ * @see {@link tuple}
+ */
+export type Rest<T extends Schema<any>> = { rest: T };
+
+/**
+ * Marks a schema as the schema of the elements that follow the leading elements of a tuple.
+ * @see {@link tuple}
+ * @param schema Ensures that the trailing elements are of this type
+ */
+export const rest = <const T extends Schema<any>>(schema: T): Rest<T> => ({ rest: schema });
+
+/**
+ * Splits the schemas of tuple elements into the leading ones and the trailing ones that accept `undefined`,
+ * judging by their results when `R` is true, or by their inputs otherwise.
+ */
+type Split<T extends Schema<any>[], R extends boolean, O extends Schema<any>[] = []> = T extends [
+    ...infer H extends Schema<any>[],
+    infer L extends Schema<any>,
+]
+    ? undefined extends (R extends true ? Result<L> : Input<L>)
+        ? Split<H, R, [L, ...O]>
+        : [T, O]
+    : [T, O];
+type Elements<T extends Schema<any>[]> =
+    Split<T, true> extends [infer H extends Schema<any>[], infer O extends Schema<any>[]]
+        ? [...{ -readonly [K in keyof H]: Result<H[K]> }, ...{ -readonly [K in keyof O]?: Result<O[K]> }]
+        : never;
+type Inputs<T extends Schema<any>[]> =
+    Split<T, false> extends [infer H extends Schema<any>[], infer O extends Schema<any>[]]
+        ? [...{ -readonly [K in keyof H]: Input<H[K]> }, ...{ -readonly [K in keyof O]?: Input<O[K]> }]
+        : never;
+
+/**
+ * Ensures that a value is an array with leading elements of the specified types,
+ * optionally followed by any number of elements of the `rest` type.
+ * Trailing elements whose schema is optional, such as a `maybe`, can be left out.
+ * @see {@link isOptional}
+ * An array of a wrong length fails with `{ type: "expected", expected: "array[n..m]" }`, which lists the allowed lengths.
+ * @see {@link rest}
+ * @example
+ * const command = tuple([string(), maybe(number())], rest(string()));
+ * command(["cp", 0, "a", "b"]); // the result has a type of [string, number?, ...string[]]
+ * command(["ls"]); // passes as well
+ * @param elements Ensures that the leading elements are of these types
+ * @param [rest] Ensures that the elements that follow the leading ones are of this type
+ */
+export const tuple = <const T extends Schema<any>[], const R extends Schema<any> = never>(
+    elements: T,
+    rest?: Rest<R>,
+): Validator<
+    [R] extends [never] ? Elements<T> : [...Elements<T>, ...Result<R>[]],
+    [R] extends [never] ? Inputs<T> : [...Inputs<T>, ...Input<R>[]]
+> => {
+    let min = elements.length;
+    while (min && isOptional(elements[min - 1])) min--;
+    let max = rest ? Infinity : elements.length;
+    let expected = `array[${min === max ? min : `${min}..${rest ? "" : max}`}]`;
+
+    return define(
+        (x): any => {
+            if (!Array.isArray(x) || x.length < min || x.length > max) throw fail({ type: "expected", expected });
+
+            let y = x;
+            let errors: ErrorInfo[] = [];
+            for (let i = 0; i < Math.max(x.length, elements.length); i++) {
+                try {
+                    let v = validate(x[i], i < elements.length ? elements[i] : rest!.rest);
+                    // left out elements are not added, unless a default value fills them in
+                    if (i < x.length || v !== undefined) y = assign(x, y, i, v);
+                } catch (e) {
+                    collect(errors, e, i);
+                }
+            }
+
+            return errors.length ? fail({ type: "multiple", errors }) : y;
+        },
+        { kind: "tuple", elements, rest: rest?.rest },
+    );
+};
+
+/**
+ * Defers the construction of a schema until it is needed, which allows declaring recursive schemas.
+ * The schema is constructed once, on the first validation.
+ * Fails the validation if a value contains itself, since validating it would never end otherwise.
+ *
+ * Typescript cannot infer a type of a recursive declaration, so the type has to be declared explicitly.
+ * @example
+ * type Tree = { name: string; children: Tree[] };
+ * const tree: Validator<Tree> = struct({ name: string(), children: array(lazy(() => tree)) });
+ * @example
+ * // mutual recursion
+ * type Post = { text: string; comments: Comment[] };
+ * type Comment = { text: string; post: Post | null };
+ * const post: Validator<Post> = struct({ text: string(), comments: array(lazy(() => comment)) });
+ * const comment: Validator<Comment> = struct({ text: string(), post: anyOf(null, lazy(() => post)) });
+ * @param get A function that constructs the schema
+ */
+export const lazy = <const T extends Schema<any>>(get: () => T): Validator<Result<T>, Input<T>> => {
+    let schema: { value: T } | undefined;
+    let resolve = () => (schema ??= { value: get() }).value;
+    let ancestors = new Set<any>();
+
+    return define(
+        x => {
+            if (typeof x !== "object" || !x) return validate(x, resolve());
+            if (ancestors.has(x)) throw fail({ type: "cycle" });
+
+            ancestors.add(x);
+            try {
+                return validate(x, resolve());
+            } finally {
+                ancestors.delete(x);
+            }
+        },
+        { kind: "lazy", get: resolve },
+    );
+};
 
 /**
  * Ensures that any value passes validation.
  * Effectively does nothing
  */
-export const any = (): Validator<any> => x => x;
+export const any = (): Validator<any, any> => define(x => x, { kind: "any" });
 
 /**
  * Ensures that no value passes validation
  */
-export const never = (): Validator<never> => _ => fail({ type: "expected", expected: "never" });
+export const never = (): Validator<never> =>
+    define(_ => fail({ type: "expected", expected: "never" }), { kind: "never" });
 
 type Intersect<T extends any[]> = T extends [infer F, ...infer R] ? Result<F> & Intersect<R> : unknown;
+type IntersectInput<T extends any[]> = T extends [infer F, ...infer R] ? Input<F> & IntersectInput<R> : unknown;
 type Union<T extends any[]> = Result<T[number]>;
 
 /**
  * Ensures that only values that match all of the specified validators pass validation.
  * @returns A validator that returns an intersection of all the specified validators results
  */
-export const allOf =
-    <const T extends Schema<any>[]>(...schemas: T): Validator<Intersect<T>> =>
-    x =>
-        schemas.reduce(validate, x);
+export const allOf = <const T extends Schema<any>[]>(...schemas: T): Validator<Intersect<T>, IntersectInput<T>> =>
+    define(x => schemas.reduce((x, schema) => validate(x, schema), x), { kind: "allOf", schemas });
+
+/**
+ * Validates an alternative of a union. When unknown keys are stripped, the alternative works on a copy,
+ * so that the keys are still there for the alternatives that are tried after it.
+ */
+const alternative = (x: unknown, schema: Schema<any>) =>
+    safeValidate(x, schema, active.unknown === "strip" ? { copy: true } : undefined);
 
 /**
  * Ensures that only values that match any of the specified validators pass validation.
@@ -279,25 +1374,20 @@ export const allOf =
  * const result = validator(2); //result has a type of "a" | "b" | "c" | number
  * @returns A validator that returns a union of all the specified validators results
  */
-export const anyOf =
-    <const T extends Schema<any>[]>(...schemas: T): Validator<Union<T>> =>
-    x => {
-        let failures = [];
-        for (let schema of schemas) {
-            try {
-                return validate(x, schema);
-            } catch (e) {
-                if (e instanceof ValidationError) {
-                    failures.push(e.info);
-                    continue;
-                }
-
-                throw e;
+export const anyOf = <const T extends Schema<any>[]>(...schemas: T): Validator<Union<T>, Input<T[number]>> =>
+    define(
+        x => {
+            let failures = [];
+            for (let schema of schemas) {
+                let result = alternative(x, schema);
+                if (result.ok) return result.value;
+                failures.push(result.error);
             }
-        }
 
-        throw fail({ type: "union", failures });
-    };
+            throw fail({ type: "union", failures });
+        },
+        { kind: "anyOf", schemas },
+    );
 
 /**
  * Ensures that only values that match only one of the specified validators pass validation.
@@ -312,29 +1402,77 @@ export const anyOf =
  * validator({ circle: { area: 0 }, rect: { w: 0, h: 0 }}); // fails validation, while it would pass with `anyOf`.
  * @returns A validator that returns a union of all the specified validators results
  */
-export const oneOf =
-    <const T extends Schema<any>[]>(...schemas: T): Validator<Union<T>> =>
-    x => {
-        let count = 0;
-        let result = x;
-        let failures = [];
+export const oneOf = <const T extends Schema<any>[]>(...schemas: T): Validator<Union<T>, Input<T[number]>> =>
+    define(
+        x => {
+            let count = 0;
+            let result = x;
+            let failures = [];
 
-        for (let schema of schemas) {
-            try {
-                result = validate(x, schema);
-                count += 1;
-            } catch (e) {
-                if (e instanceof ValidationError) {
-                    failures.push(e.info);
+            for (let schema of schemas) {
+                let outcome = alternative(x, schema);
+                if (!outcome.ok) {
+                    failures.push(outcome.error);
                     continue;
                 }
 
-                throw e;
+                result = outcome.value;
+                if (++count > 1) throw fail({ type: "unexpected" });
             }
 
-            if (count > 1) throw fail({ type: "unexpected" });
-        }
+            if (count === 0) throw fail({ type: "union", failures });
+            return result;
+        },
+        { kind: "oneOf", schemas },
+    );
+
+type Tagged<K extends string, V extends Record<string, Schema<any>>> = {
+    [T in keyof V & string]: { -readonly [P in K]: T } & Result<V[T]>;
+}[keyof V & string];
+type TaggedInput<K extends string, V extends Record<string, Schema<any>>> = {
+    [T in keyof V & string]: { -readonly [P in K]: T } & Input<V[T]>;
+}[keyof V & string];
+
+/**
+ * Ensures that a value is an object that matches the variant picked by its tag,
+ * where the tag is the value of the `key` property.
+ * Unlike `anyOf`, picks the variant right away and reports either an unknown tag or the failures of that variant only.
+ *
+ * Object schemas of the variants are validated along with their tag, so the tag is not required to be a part of them.
+ * @see {@link anyOf}
+ * @example
+ * const payment = taggedUnion("type", {
+ *     paypal: { email: string() },
+ *     card: { number: string(), cvc: string() },
+ * });
+ *
+ * const result = payment(x);
+ * if (result.type === "card") result.cvc; // typescript narrows the result down to the variant
+ * @param key The key of the tag property
+ * @param variants Schemas of the variants, keyed by their tags
+ * @returns A validator that returns a union of the variants results
+ */
+export const taggedUnion = <const K extends string, const V extends Record<string, Schema<any>>>(
+    key: K,
+    variants: V,
+): Validator<Tagged<K, V>, TaggedInput<K, V>> => {
+    let schemas: Record<string, Schema<any>> = {};
+    for (let tag of Object.keys(variants)) {
+        let variant = variants[tag];
+        schemas[tag] =
+            typeof variant === "object" && variant && !Array.isArray(variant) ? { [key]: tag, ...variant } : variant;
+    }
+
+    return define(
+        x => {
+            if (typeof x !== "object" || !x || Array.isArray(x)) throw fail({ type: "expected", expected: "object" });
 
-        if (count === 0) throw fail({ type: "union", failures });
-        return result;
-    };
+            let tag = x[key];
+            if (typeof tag !== "string" || !Object.hasOwn(schemas, tag)) {
+                rethrow(new ValidationError({ type: "unknown_tag", tag, tags: Object.keys(schemas), path: [] }), key);
+            }
+            return validate(x, schemas[tag]);
+        },
+        { kind: "taggedUnion", key, variants: schemas },
+    );
+};
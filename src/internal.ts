@@ -0,0 +1,127 @@
+import type { Definition, ErrorDescription, ErrorInfo, Options, Validator } from "./index";
+
+/**
+ * Exception that indicates a validation failure.
+ */
+export class ValidationError extends Error {
+    public info: ErrorInfo;
+    constructor(info: ErrorInfo) {
+        super();
+        this.name = "ValidationError";
+        this.info = info;
+    }
+    override get message() {
+        return JSON.stringify(this.info);
+    }
+}
+
+/**
+ * Prepends a path key to the current path if the error is a ValidationError and rethrows the error.
+ * Used for rethrowing errors thrown by nested validators.
+ */
+export const rethrow = <T>(e: T, path: string | number): never => {
+    if (e instanceof ValidationError) {
+        e.info.path.push(path);
+    }
+    throw e;
+};
+
+/**
+ * Flattens `multiple` errors into a list of errors with full paths.
+ * @example
+ * const result = safeValidate(x, schema, { all: true });
+ * if (!result.ok) console.log(flatten(result.error));
+ * @param info An error to flatten
+ */
+export const flatten = (info: ErrorInfo): ErrorInfo[] =>
+    info.type === "multiple"
+        ? info.errors.flatMap(error => flatten({ ...error, path: [...error.path, ...info.path] }))
+        : [info];
+
+export let active: Options = {};
+export const definitions = new WeakMap<Validator<any>, Definition>();
+
+/**
+ * Attaches a definition to a validator.
+ */
+export const define = <T>(validator: (object: any) => T, definition: Definition): Validator<T, any> => {
+    definitions.set(validator, definition);
+    return validator;
+};
+
+/**
+ * Runs `run` with the options merged into the active ones, restoring them afterwards.
+ */
+export const withOptions = <T>(options: Options, run: () => T): T => {
+    let previous = active;
+    active = { ...previous, ...options };
+    try {
+        return run();
+    } finally {
+        active = previous;
+    }
+};
+
+/**
+ * Either rethrows an error thrown by the nested validator at `path` or, when collecting all errors, adds it to `errors`.
+ */
+export const collect = (errors: ErrorInfo[], e: unknown, path: string | number) => {
+    if (active.all && e instanceof ValidationError) {
+        e.info.path.push(path);
+        errors.push(...flatten(e.info));
+    } else {
+        rethrow(e, path);
+    }
+};
+
+/**
+ * Returns an object that is safe to write validated values of `x` into. `y` is either `x` itself or its clone.
+ * In copy-on-write mode `x` gets cloned on the first write.
+ */
+export const writable = (x: any, y: any) => (active.copy && x === y ? (Array.isArray(x) ? x.slice() : { ...x }) : y);
+
+/**
+ * Writes a validated value `v` of `x[i]` into `y`. Returns the object that has been written into.
+ * In copy-on-write mode untransformed values are not written, so that `x` is cloned only when needed.
+ * @see {@link writable}
+ */
+export const assign = (x: any, y: any, i: string | number, v: any) => {
+    if (active.copy && Object.is(x[i], v)) return y;
+    y = writable(x, y);
+    y[i] = v;
+    return y;
+};
+
+/**
+ * Removes or reports the keys of `x` that are not present in the object schema, as the `unknown` option says.
+ * Keys of an object that has already failed are kept, since other schemas, such as alternatives of `anyOf`, may need them.
+ * Returns the object that has been written into.
+ * @see {@link writable}
+ */
+export const unknowns = (x: any, y: any, schema: object, errors: ErrorInfo[]) => {
+    if (!active.unknown || active.unknown === "allow" || (active.unknown === "strip" && errors.length)) return y;
+    for (let i of Object.keys(x)) {
+        if (Object.hasOwn(schema, i)) continue;
+        if (active.unknown === "strip") {
+            y = writable(x, y);
+            delete y[i];
+        } else {
+            collect(errors, new ValidationError({ type: "unknown_key", key: i, path: [] }), i);
+        }
+    }
+    return y;
+};
+
+/**
+ * Fails the validation with a message.
+ * A shorthand for `throw new ValidationError(message)` that can be used in ternaries.
+ * @example
+ * const validator = map(number(), x => x > 5 ? x : fail("expected a value greater than 5"));
+ * validator(6); // throws a ValidationError
+ * @param message A message to pass to the `ValidationError` constructor
+ */
+export const fail = (message: string | ErrorDescription): never => {
+    throw new ValidationError(
+        typeof message === "string" ? { type: "custom", path: [], message } : { ...message, path: [] },
+    );
+};
@@ -0,0 +1,402 @@
+import {
+    allOf,
+    any,
+    anyOf,
+    array,
+    boolean,
+    definition,
+    fail,
+    filter,
+    integer,
+    isOptional,
+    isWrapper,
+    lazy,
+    maybe,
+    never,
+    number,
+    oneOf,
+    rethrow,
+    string,
+    struct,
+    validate,
+    type Options,
+    type Schema,
+    type Validator,
+} from "./index";
+
+type JsonType = "null" | "boolean" | "object" | "array" | "number" | "integer" | "string";
+
+/**
+ * A JSON Schema (draft 2020-12) object. Only the keywords that `picostruct` makes use of are typed.
+ */
+export type JsonSchema = {
+    type?: JsonType | JsonType[];
+    const?: unknown;
+    enum?: unknown[];
+    properties?: Record<string, JsonSchema | boolean>;
+    required?: string[];
+    additionalProperties?: JsonSchema | boolean;
+    propertyNames?: JsonSchema | boolean;
+    items?: JsonSchema | boolean;
+    prefixItems?: (JsonSchema | boolean)[];
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    anyOf?: (JsonSchema | boolean)[];
+    oneOf?: (JsonSchema | boolean)[];
+    allOf?: (JsonSchema | boolean)[];
+    not?: JsonSchema | boolean;
+    format?: string;
+    pattern?: string;
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    multipleOf?: number;
+    default?: unknown;
+    $comment?: string;
+    $ref?: string;
+    $defs?: Record<string, JsonSchema | boolean>;
+    [keyword: string]: unknown;
+};
+
+type Context = {
+    unknown: Options["unknown"];
+    /** Definitions of lazy schemas, which are referenced with `$ref` since they might be recursive */
+    defs: Record<string, JsonSchema>;
+    refs: Map<Schema<any>, string>;
+};
+
+/**
+ * Removes the keywords that are `undefined`.
+ */
+const defined = (schema: JsonSchema): JsonSchema =>
+    Object.fromEntries(Object.entries(schema).filter(([, value]) => value !== undefined));
+
+const convert = (schema: Schema<any>, context: Context): JsonSchema => {
+    if (typeof schema === "function") {
+        let def = definition(schema);
+        switch (def?.kind) {
+            case "string":
+                return defined({
+                    type: "string",
+                    format: def.format?.name,
+                    pattern: def.regex?.source,
+                    minLength: def.bounds?.minLength,
+                    maxLength: def.bounds?.maxLength,
+                });
+            case "number":
+            case "integer": {
+                let { min, max, exclusiveMin, exclusiveMax, multipleOf } = def.bounds ?? {};
+                return defined({
+                    type: def.kind,
+                    minimum: min,
+                    maximum: max,
+                    exclusiveMinimum: exclusiveMin,
+                    exclusiveMaximum: exclusiveMax,
+                    multipleOf,
+                });
+            }
+            case "boolean":
+                return { type: def.kind };
+            case "any":
+                return {};
+            case "never":
+                return { not: {} };
+            case "maybe":
+            case "nullable":
+            case "nullish": {
+                let y = convert(def.schema, context);
+                if (def.kind !== "maybe") y = { anyOf: [y, { type: "null" }] };
+                // a factory makes equal default values every time, so any of them describes the default
+                let value = typeof def.default === "function" ? def.default() : def.default;
+                return value === undefined ? y : { ...y, default: value };
+            }
+            case "struct":
+                return convert(def.schema, { ...context, unknown: def.options?.unknown ?? context.unknown });
+            case "record":
+                return {
+                    type: "object",
+                    propertyNames: convert(def.key, context),
+                    additionalProperties: convert(def.value, context),
+                };
+            case "array": {
+                let { minItems, maxItems, unique } = def.bounds ?? {};
+                return defined({
+                    type: "array",
+                    items: convert(def.schema, context),
+                    minItems,
+                    maxItems,
+                    // uniqueness by a key cannot be described
+                    uniqueItems: unique === true || undefined,
+                });
+            }
+            case "tuple": {
+                let min = def.elements.length;
+                while (min && isOptional(def.elements[min - 1])) min--;
+                return defined({
+                    type: "array",
+                    prefixItems: def.elements.map(x => convert(x, context)),
+                    items: def.rest === undefined ? false : convert(def.rest, context),
+                    minItems: min || undefined,
+                });
+            }
+            case "lazy": {
+                let ref = context.refs.get(schema);
+                if (ref === undefined) {
+                    context.refs.set(schema, (ref = `lazy${context.refs.size}`));
+                    context.defs[ref] = convert(def.get(), context);
+                }
+                return { $ref: `#/$defs/${ref}` };
+            }
+            case "taggedUnion":
+                return {
+                    oneOf: Object.values(def.variants).map(x => convert(x, context)),
+                    discriminator: { propertyName: def.key },
+                };
+            case "allOf":
+            case "anyOf":
+            case "oneOf":
+                return { [def.kind]: def.schemas.filter(x => x !== undefined).map(x => convert(x, context)) };
+            case "map":
+                return { ...convert(def.schema, context), $comment: "transformed by a custom function" };
+            case "filter":
+                return { ...convert(def.schema, context), $comment: "refined by a custom predicate" };
+            case "preprocess":
+                return { ...convert(def.schema, context), $comment: "preprocessed by a custom function" };
+            case "catchError":
+                return { ...convert(def.schema, context), $comment: "falls back on a failure" };
+            case "annotate": {
+                let { description, example } = def.annotation;
+                return defined({
+                    ...convert(def.schema, context),
+                    description,
+                    examples: example === undefined ? undefined : [example],
+                });
+            }
+            default:
+                return isWrapper(def) ? convert(def.schema, context) : { $comment: "custom validator" };
+        }
+    } else if (Array.isArray(schema)) {
+        return {
+            type: "array",
+            prefixItems: schema.map(x => convert(x, context)),
+            items: false,
+            minItems: schema.length,
+        };
+    } else if (typeof schema === "object" && schema) {
+        let keys = Object.keys(schema);
+        let required = keys.filter(key => !isOptional(schema[key]));
+        return {
+            type: "object",
+            properties: Object.fromEntries(keys.map(key => [key, convert(schema[key], context)])),
+            ...(required.length ? { required } : {}),
+            ...(context.unknown === "strict" ? { additionalProperties: false } : {}),
+        };
+    } else if (schema === null) {
+        return { type: "null" };
+    } else if (schema === undefined) {
+        return { not: {} };
+    } else if (typeof schema === "string" || typeof schema === "number" || typeof schema === "boolean") {
+        return { const: schema };
+    } else {
+        return { $comment: `unrepresentable literal ${String(schema)}` };
+    }
+};
+
+/**
+ * Converts a schema into a JSON Schema (draft 2020-12) that describes the values that the schema accepts.
+ * Custom validators, as well as custom transforms and predicates of `map` and `filter`, cannot be described
+ * and are annotated with a `$comment` instead. Lazy schemas are placed into `$defs` and referenced with `$ref`.
+ * @example
+ * toJsonSchema({ x: string(), y: maybe(integer(), 0) });
+ * // returns {
+ * //     type: "object",
+ * //     properties: { x: { type: "string" }, y: { type: "integer", default: 0 } },
+ * //     required: ["x"],
+ * // }
+ * @param schema A schema to convert
+ */
+export const toJsonSchema = (schema: Schema<any>): JsonSchema => {
+    let context: Context = { unknown: undefined, defs: {}, refs: new Map() };
+    let result = convert(schema, context);
+    return context.refs.size ? { ...result, $defs: context.defs } : result;
+};
+
+const isObject = (x: any) => typeof x === "object" && !!x && !Array.isArray(x);
+
+const equal = (a: any, b: any): boolean =>
+    a === b ||
+    (typeof a === "object" &&
+        typeof b === "object" &&
+        !!a &&
+        !!b &&
+        Array.isArray(a) === Array.isArray(b) &&
+        Object.keys(a).length === Object.keys(b).length &&
+        Object.keys(a).every(key => Object.hasOwn(b, key) && equal(a[key], b[key])));
+
+/**
+ * Applies a schema only to the values that pass the test, just like JSON Schema keywords apply only to values of their type.
+ */
+const when =
+    (test: (x: any) => boolean, schema: Schema<any>): Validator<unknown> =>
+    x =>
+        test(x) ? validate(x, schema) : x;
+
+const constant = (value: unknown): Schema<any> =>
+    typeof value === "object" && value
+        ? filter(any(), x => equal(x, value), { type: "expected", expected: JSON.stringify(value) })
+        : value;
+
+const types: Record<JsonType, Schema<any>> = {
+    null: null,
+    boolean: boolean(),
+    object: struct({}, { unknown: "allow" }),
+    array: array(any()),
+    number: number(),
+    integer: integer(),
+    string: string(),
+};
+
+/**
+ * Resolves a local JSON pointer, such as `#/$defs/node`.
+ */
+const resolve = (root: JsonSchema | boolean, ref: string): JsonSchema | boolean => {
+    if (!ref.startsWith("#")) throw new Error(`unsupported $ref ${ref}, only local references are supported`);
+
+    let target: any = root;
+    for (let token of ref.slice(1).split("/").slice(1)) {
+        target = target?.[decodeURIComponent(token).replace(/~1/g, "/").replace(/~0/g, "~")];
+        if (target === undefined) throw new Error(`unresolved $ref ${ref}`);
+    }
+    return target;
+};
+
+const present: Validator<unknown> = x => (x === undefined ? fail({ type: "expected", expected: "a value" }) : x);
+
+/**
+ * Validates every element of an array with `prefix` schemas for leading elements and `items` for the rest.
+ */
+const elements =
+    (prefix: Validator<unknown>[], items: Validator<unknown>): Validator<unknown> =>
+    x => {
+        for (let i = 0; i < x.length; i++) {
+            try {
+                validate(x[i], i < prefix.length ? prefix[i]! : items);
+            } catch (e) {
+                rethrow(e, i);
+            }
+        }
+        return x;
+    };
+
+/**
+ * Validates every property of an object that is not listed in `known` with `additional`.
+ */
+const additional =
+    (known: Record<string, unknown>, additional: Validator<unknown>): Validator<unknown> =>
+    x => {
+        for (let key of Object.keys(x)) {
+            if (Object.hasOwn(known, key)) continue;
+            try {
+                validate(x[key], additional);
+            } catch (e) {
+                rethrow(e, key);
+            }
+        }
+        return x;
+    };
+
+const build = (
+    schema: JsonSchema | boolean,
+    root: JsonSchema | boolean,
+    refs: Map<string, Validator<unknown>>,
+): Validator<unknown> => {
+    if (typeof schema === "boolean") return schema ? any() : never();
+
+    let parts: Validator<unknown>[] = [];
+    let nested = (schema: JsonSchema | boolean) => build(schema, root, refs);
+
+    if (schema.$ref !== undefined) {
+        let ref = schema.$ref;
+        let validator = refs.get(ref);
+        if (!validator) {
+            // the reference might be recursive, so it is registered before it is built
+            let target: Validator<unknown>;
+            refs.set(ref, (validator = lazy(() => target)));
+            target = nested(resolve(root, ref));
+        }
+        parts.push(validator);
+    }
+
+    if (schema.type !== undefined) {
+        let type = Array.isArray(schema.type) ? schema.type.map(type => types[type]) : [types[schema.type]];
+        parts.push(type.length === 1 ? struct(type[0]) : anyOf(...type));
+    }
+
+    if ("const" in schema) parts.push(struct(constant(schema.const)));
+    if (schema.enum) parts.push(anyOf(...schema.enum.map(constant)));
+
+    if (schema.properties || schema.required || schema.additionalProperties !== undefined) {
+        let properties = schema.properties ?? {};
+        let required = new Set(schema.required);
+        let shape: Record<string, Schema<any>> = {};
+        for (let key of new Set([...Object.keys(properties), ...required])) {
+            let property = Object.hasOwn(properties, key) ? nested(properties[key]!) : any();
+            shape[key] = required.has(key) ? allOf(present, property) : maybe(property);
+        }
+
+        let extra = schema.additionalProperties;
+        let object = struct(shape, { unknown: extra === false ? "strict" : "allow" });
+        parts.push(
+            when(isObject, typeof extra === "object" ? allOf(object, additional(shape, nested(extra))) : object),
+        );
+    }
+
+    if (schema.prefixItems || schema.items !== undefined) {
+        let prefix = (schema.prefixItems ?? []).map(nested);
+        parts.push(when(Array.isArray, elements(prefix, nested(schema.items ?? true))));
+    }
+
+    let { pattern, minLength, maxLength } = schema;
+    if (pattern !== undefined || minLength !== undefined || maxLength !== undefined) {
+        let regex = pattern === undefined ? undefined : new RegExp(pattern, "u");
+        parts.push(when(x => typeof x === "string", string(regex, { minLength, maxLength })));
+    }
+
+    let { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } = schema;
+    if ([minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf].some(x => x !== undefined)) {
+        let bounds = { min: minimum, max: maximum, exclusiveMin: exclusiveMinimum, exclusiveMax: exclusiveMaximum };
+        parts.push(when(x => typeof x === "number", number({ ...bounds, multipleOf })));
+    }
+
+    let { minItems, maxItems } = schema;
+    if (minItems !== undefined || maxItems !== undefined) {
+        parts.push(when(Array.isArray, array(any(), { minItems, maxItems })));
+    }
+
+    if (schema.allOf) parts.push(allOf(...schema.allOf.map(nested)));
+    if (schema.anyOf) parts.push(anyOf(...schema.anyOf.map(nested)));
+    if (schema.oneOf) parts.push(oneOf(...schema.oneOf.map(nested)));
+
+    return parts.length === 1 ? parts[0]! : allOf(...parts);
+};
+
+/**
+ * Builds a validator out of a JSON Schema (draft 2020-12) document.
+ * Supports `type`, `const`, `enum`, `properties`, `required`, `additionalProperties`, `prefixItems`, `items`,
+ * `pattern`, numeric, length and item count bounds, `allOf`, `anyOf`, `oneOf` and local references with `$ref` and `$defs`.
+ * Other keywords are ignored. Just like in JSON Schema, type-specific keywords apply only to the values of that type.
+ * @example
+ * const validator = fromJsonSchema({
+ *     type: "object",
+ *     properties: { x: { type: "integer", minimum: 0 } },
+ *     required: ["x"],
+ * });
+ * validator({ x: -1 }); // throws a ValidationError
+ * @param doc A JSON Schema document
+ * @throws {Error} If the document contains a reference that cannot be resolved
+ */
+export const fromJsonSchema = (doc: JsonSchema | boolean): Validator<unknown> => build(doc, doc, new Map());
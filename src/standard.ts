@@ -0,0 +1,79 @@
+import {
+    flatten,
+    safeValidate,
+    struct,
+    type Input,
+    type Options,
+    type Result,
+    type Schema,
+    type Struct,
+} from "./index";
+import { formatError, type Messages } from "./format";
+
+/**
+ * The Standard Schema interface (v1), which lets libraries accept validators of any vendor.
+ * @see https://standardschema.dev
+ */
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+    readonly "~standard": {
+        readonly version: 1;
+        readonly vendor: string;
+        readonly validate: (value: unknown) => StandardResult<Output> | Promise<StandardResult<Output>>;
+        readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+    };
+};
+
+export type StandardResult<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: ReadonlyArray<StandardIssue> };
+
+export type StandardIssue = { readonly message: string; readonly path?: ReadonlyArray<PropertyKey> | undefined };
+
+/**
+ * The type of the input a Standard Schema accepts. For a schema wrapped by `standard`, this is its `Input`.
+ * @see {@link standard}
+ */
+export type InferInput<T extends StandardSchemaV1> = NonNullable<T["~standard"]["types"]>["input"];
+
+/**
+ * The type of the output a Standard Schema produces. For a schema wrapped by `standard`, this is its `Result`.
+ * @see {@link standard}
+ */
+export type InferOutput<T extends StandardSchemaV1> = NonNullable<T["~standard"]["types"]>["output"];
+
+/**
+ * Wraps a schema into a validator that implements the Standard Schema interface with `vendor: "picostruct"`,
+ * so that it can be passed to the libraries that accept Standard Schemas. The wrapper is still a regular `struct`.
+ *
+ * Failures of every property are reported as separate issues, since the `all` option is enabled by default.
+ * Messages of the issues are rendered by `formatError`, and their paths are listed outermost-first.
+ * @see {@link formatError}
+ * @example
+ * const user = standard({ name: string(), age: integer() });
+ * user["~standard"].validate({ name: 0, age: 1 }); // returns { issues: [{ message: "expected string", path: ["name"] }] }
+ * @param schema A description of how to validate/transform the object.
+ * @param [options] Options for every validation performed by the wrapper.
+ * @param [messages] Messages to use instead of the default ones
+ */
+export const standard = <const T extends Schema<any>>(
+    schema: T,
+    options?: Options,
+    messages?: Partial<Messages>,
+): Struct<T> & StandardSchemaV1<Input<T>, Result<T>> =>
+    Object.assign(struct(schema, options), {
+        "~standard": {
+            version: 1 as const,
+            vendor: "picostruct",
+            validate: (x: unknown): StandardResult<Result<T>> => {
+                let result = safeValidate(x, schema, { all: true, ...options });
+                return result.ok
+                    ? { value: result.value }
+                    : {
+                          issues: flatten(result.error).map(error => ({
+                              message: formatError({ ...error, path: [] }, messages),
+                              path: [...error.path].reverse(),
+                          })),
+                      };
+            },
+        },
+    });
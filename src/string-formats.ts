@@ -0,0 +1,210 @@
+import { string, validate, type StringFormat, type Validator } from "./index";
+import { define, fail } from "./internal";
+
+/**
+ * Ensures that a value is a string that passes the test, failing with `{ type: "expected", expected }` otherwise.
+ * The format is recorded in the definition, so that tools such as `toJsonSchema` or `arbitrary` can tell it from a plain string.
+ */
+const format = (format: StringFormat, test: (x: string) => boolean): Validator<string, string> =>
+    define(x => (test((x = validate(x, string()))) ? x : fail({ type: "expected", expected: format.expected })), {
+        kind: "string",
+        format,
+    });
+
+const label = /^(?!-)[a-z\d-]{1,63}(?<!-)$/i;
+const isHostname = (x: string) => x.length <= 253 && x.split(".").every(part => label.test(part));
+
+const octet = "(25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)";
+const v4 = new RegExp(`^${octet}(\\.${octet}){3}$`);
+const isIPv4 = (x: string) => v4.test(x);
+const isIPv6 = (x: string) => {
+    let halves = x.split("::");
+    if (halves.length > 2) return false;
+
+    let groups = halves.map(half => (half ? half.split(":") : []));
+    let all = groups.flat();
+    // the last group might be an embedded IPv4 address, which takes up two groups
+    let size = all.length + (all.length && isIPv4(all[all.length - 1]!) ? 1 : 0);
+    return (
+        all.every((group, i) => /^[\da-f]{1,4}$/i.test(group) || (i === all.length - 1 && isIPv4(group))) &&
+        (halves.length === 2 ? size < 8 : size === 8)
+    );
+};
+
+const leap = (year: number) => year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+const isDate = (x: string) => {
+    let match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(x);
+    if (!match) return false;
+
+    let [year, month, day] = match.slice(1).map(Number) as [number, number, number];
+    let days = [31, leap(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+    return !!days && day >= 1 && day <= days;
+};
+const isTime = (x: string) => {
+    let match = /^(\d{2}):(\d{2}):(\d{2})(\.\d+)?(Z|[+-](\d{2}):(\d{2}))$/i.exec(x);
+    return (
+        !!match &&
+        +match[1]! <= 23 &&
+        +match[2]! <= 59 &&
+        // leap seconds are allowed
+        +match[3]! <= 60 &&
+        (match[5]!.toUpperCase() === "Z" || (+match[6]! <= 23 && +match[7]! <= 59))
+    );
+};
+
+/**
+ * Ensures that a value is an email address, such as `user@example.com`.
+ * Quoted local parts and IP address domains are not supported.
+ */
+export const email = (): Validator<string, string> =>
+    format({ name: "email", expected: "email", example: "user@example.com" }, x => {
+        let at = x.lastIndexOf("@");
+        let domain = x.slice(at + 1);
+        return (
+            at > 0 &&
+            /^[\w!#$%&'*+/=?^`{|}~-]+(\.[\w!#$%&'*+/=?^`{|}~-]+)*$/.test(x.slice(0, at)) &&
+            domain.includes(".") &&
+            isHostname(domain)
+        );
+    });
+
+/**
+ * Ensures that a value is an RFC 9562 UUID, such as `f81d4fae-7dec-11d0-a765-00a0c91e6bf6`.
+ * @param version An optional UUID version. Without it, any version is allowed, as well as the nil and the max UUIDs
+ */
+export const uuid = (version?: 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8): Validator<string, string> =>
+    format(
+        {
+            name: "uuid",
+            expected: version ? `uuid v${version}` : "uuid",
+            example: `f81d4fae-7dec-${version ?? 1}1d0-a765-00a0c91e6bf6`,
+        },
+        x =>
+            new RegExp(
+                `^[\\da-f]{8}-[\\da-f]{4}-${version ?? "[1-8]"}[\\da-f]{3}-[89ab][\\da-f]{3}-[\\da-f]{12}$`,
+                "i",
+            ).test(x) ||
+            (!version && /^(0{8}-0{4}-0{4}-0{4}-0{12}|f{8}-f{4}-f{4}-f{4}-f{12})$/i.test(x)),
+    );
+
+/**
+ * Ensures that a value is an absolute URL with a host, such as `https://example.com/path?query`.
+ * @param protocols Allowed protocols, such as `["http", "https"]`. Any protocol is allowed by default
+ */
+export const url = (protocols?: string[]): Validator<string, string> =>
+    format(
+        {
+            name: "uri",
+            expected: protocols ? `url (${protocols.join(", ")})` : "url",
+            example: `${protocols?.[0] ?? "https"}://example.com`,
+        },
+        x => {
+            let match =
+                /^([a-z][a-z\d+.-]*):\/\/(?:[^\s/?#@]*@)?([^\s/?#:]+|\[[\da-f:.]+\])(?::\d{1,5})?([/?#]\S*)?$/i.exec(x);
+            if (!match || (protocols && !protocols.includes(match[1]!.toLowerCase()))) return false;
+
+            let host = match[2]!;
+            return host.startsWith("[") ? isIPv6(host.slice(1, -1)) : isIPv4(host) || isHostname(host);
+        },
+    );
+
+/**
+ * Ensures that a value is an ISO 8601 calendar date, such as `2001-09-09`.
+ */
+export const isoDate = (): Validator<string, string> =>
+    format({ name: "date", expected: "iso date", example: "2001-09-09" }, isDate);
+
+/**
+ * Ensures that a value is an ISO 8601 date and time with a UTC offset, such as `2001-09-09T01:46:40Z` or `2001-09-09T03:46:40.5+02:00`.
+ */
+export const isoDateTime = (): Validator<string, string> =>
+    format({ name: "date-time", expected: "iso datetime", example: "2001-09-09T01:46:40Z" }, x => {
+        let [date, time, ...rest] = x.split(/t/i);
+        return !rest.length && !!time && isDate(date!) && isTime(time);
+    });
+
+/**
+ * Ensures that a value is an ISO 8601 duration, such as `P1Y2M3DT4H5M6.5S` or `P2W`.
+ */
+export const isoDuration = (): Validator<string, string> =>
+    format({ name: "duration", expected: "iso duration", example: "P1Y2M3DT4H5M6.5S" }, x =>
+        /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/.test(x),
+    );
+
+/**
+ * Ensures that a value is an IP address, such as `192.168.0.1` or `::1`.
+ * @param version An optional IP version. Both versions are allowed by default
+ */
+export const ip = (version?: 4 | 6): Validator<string, string> =>
+    format(
+        {
+            name: version ? `ipv${version}` : "ip",
+            expected: version ? `ipv${version}` : "ip",
+            example: version === 6 ? "::1" : "192.168.0.1",
+        },
+        x => (version !== 6 && isIPv4(x)) || (version !== 4 && isIPv6(x)),
+    );
+
+/**
+ * Ensures that a value is an IP address range in CIDR notation, such as `192.168.0.0/16` or `2001:db8::/32`.
+ * @param version An optional IP version. Both versions are allowed by default
+ */
+export const cidr = (version?: 4 | 6): Validator<string, string> =>
+    format(
+        {
+            name: "cidr",
+            expected: version ? `ipv${version} cidr` : "cidr",
+            example: version === 6 ? "2001:db8::/32" : "192.168.0.0/16",
+        },
+        x => {
+            let [address, prefix, ...rest] = x.split("/");
+            if (rest.length || !prefix || !/^(0|[1-9]\d*)$/.test(prefix)) return false;
+            return (
+                (version !== 6 && isIPv4(address!) && +prefix <= 32) ||
+                (version !== 4 && isIPv6(address!) && +prefix <= 128)
+            );
+        },
+    );
+
+/**
+ * Ensures that a value is a hostname, such as `www.example.com`.
+ */
+export const hostname = (): Validator<string, string> =>
+    format({ name: "hostname", expected: "hostname", example: "www.example.com" }, isHostname);
+
+/**
+ * Ensures that a value is a base64-encoded string.
+ * @param urlSafe Whether to use the URL-safe alphabet (`-` and `_` instead of `+` and `/`), with optional padding
+ */
+export const base64 = (urlSafe?: boolean): Validator<string, string> =>
+    format(
+        { name: urlSafe ? "base64url" : "base64", expected: urlSafe ? "base64url" : "base64", example: "aGVsbG8=" },
+        x =>
+            urlSafe
+                ? /^[\w-]*$/.test(x.replace(/={1,2}$/, "")) &&
+                  x.length % 4 !== 1 &&
+                  (!x.endsWith("=") || x.length % 4 === 0)
+                : /^([a-z\d+/]{4})*([a-z\d+/]{2}==|[a-z\d+/]{3}=)?$/i.test(x),
+    );
+
+/**
+ * Ensures that a value is a non-empty string of hexadecimal digits.
+ */
+export const hex = (): Validator<string, string> =>
+    format({ name: "hex", expected: "hex", example: "c0ffee" }, x => /^[\da-f]+$/i.test(x));
+
+/**
+ * Ensures that a value is a semantic version, such as `1.0.0-rc.1+build.5`.
+ */
+export const semver = (): Validator<string, string> =>
+    format({ name: "semver", expected: "semver", example: "1.0.0-rc.1+build.5" }, x =>
+        /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-z-][\da-z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-z-][\da-z-]*))*))?(?:\+([\da-z-]+(?:\.[\da-z-]+)*))?$/i.test(
+            x,
+        ),
+    );
+
+/**
+ * Ensures that a value is a slug: lowercase alphanumeric words separated by single hyphens, such as `hello-world-2`.
+ */
+export const slug = (): Validator<string, string> =>
+    format({ name: "slug", expected: "slug", example: "hello-world-2" }, x => /^[a-z\d]+(-[a-z\d]+)*$/.test(x));
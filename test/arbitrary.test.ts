@@ -0,0 +1,115 @@
+import { expect, test } from "vitest";
+import {
+    allOf,
+    anyOf,
+    array,
+    bigint,
+    boolean,
+    date,
+    filter,
+    integer,
+    lazy,
+    map,
+    mapOf,
+    maybe,
+    nullable,
+    nullish,
+    number,
+    oneOf,
+    preprocess,
+    record,
+    rest,
+    setOf,
+    strict,
+    string,
+    taggedUnion,
+    tuple,
+    validate,
+    type Validator,
+} from "../src/index";
+import { arbitrary, check, mutations, register, seeded } from "../src/arbitrary";
+
+test("seeded", () => {
+    const sample = arbitrary({ id: integer({ min: 1 }), name: string(), tags: array(string()) });
+    expect([sample(seeded(1)), sample(seeded(1))]).toEqual([sample(seeded(1)), sample(seeded(1))]);
+    expect(sample(seeded(1))).not.toEqual(sample(seeded(2)));
+});
+
+test("check", () => {
+    type Tree = { value: number; children: Tree[] };
+    const tree: Validator<Tree> = lazy(() => ({ value: number(), children: array(tree) }));
+    type List = { head: string; tail: List | null };
+    const list: Validator<List> = lazy(() => ({ head: string(), tail: anyOf(null, list) }));
+
+    check({
+        id: integer({ min: 1, max: 100 }),
+        price: number({ exclusiveMin: 0, multipleOf: 0.25 }),
+        name: string({ minLength: 1, maxLength: 3 }),
+        flag: maybe(boolean()),
+        kind: oneOf("a", "b", 0),
+        both: allOf({ a: string() }, { b: number() }),
+        pair: tuple([string(), maybe(integer())], rest(boolean())),
+        scores: record(string(), number({ min: 0, max: 1 })),
+        ids: array(integer(), { minItems: 1, maxItems: 3, unique: true }),
+        lookup: mapOf(string(), date()),
+        set: setOf(bigint()),
+        shape: taggedUnion("type", { circle: { type: "circle", r: number() }, dot: { type: "dot" } }),
+        tree,
+        list,
+        strict: strict({ x: map(integer(), String) }),
+        row: { deleted: nullish(date()), note: nullable(string(), "") },
+        trimmed: preprocess((x: unknown) => (typeof x === "string" ? x.trim() : x), string()),
+    });
+});
+
+test("string patterns", () => {
+    const random = seeded(3);
+    for (const regex of [/^[a-f\d]{2,4}-(x|yz)+$/, /^\w+@\w+\.(com|org)$/i, /^[^\s]{3}\.?é$/, /^(?<year>\d{4})$/]) {
+        for (let i = 0; i < 20; i++) expect(arbitrary(string(regex))(random)).toMatch(regex);
+    }
+    expect(() => arbitrary(string(/^(?=a)/))(random)).toThrowError("register a generator");
+    expect(() => arbitrary(string(/^(a)\1$/))(random)).toThrowError("register a generator");
+});
+
+test("mutations", () => {
+    const schema = strict({ a: integer({ min: 1 }), b: maybe(string()) });
+    const candidates = mutations(schema)(seeded(0));
+    expect(candidates).toContainEqual(null);
+    expect(candidates).toContainEqual(expect.objectContaining({ ab_: 0 }));
+    for (const x of candidates) expect(() => validate(x, schema)).toThrowError();
+});
+
+test("register", () => {
+    const even = filter(integer(), x => x % 2 === 0);
+    const random = seeded(0);
+    for (let i = 0; i < 20; i++) expect(Math.abs(arbitrary(even)(random) % 2)).toBe(0);
+
+    const word: Validator<string, string> = x =>
+        typeof x === "string" && /^[a-z]+$/.test(x) ? x : validate(x, "word");
+    expect(() => arbitrary(word)(random)).toThrowError("register a generator");
+    register(
+        word,
+        random => "abc".slice(Math.floor(random() * 3)),
+        x => [x.toUpperCase(), 0],
+    );
+    check({ words: array(word) });
+
+    const never = filter(string(), () => false);
+    expect(() => arbitrary(never)(random)).toThrowError("cannot generate a value for filter");
+    expect(() =>
+        check(
+            map(string(), x => x),
+            { seed: 5 },
+        ),
+    ).not.toThrowError();
+});
+
+test("check failures", () => {
+    const loose: Validator<number, number> = x => x;
+    register(
+        loose,
+        () => 1,
+        () => [2],
+    );
+    expect(() => check(loose, { seed: 7 })).toThrowError("schema accepted the mutation 2 (seed 7, run 0)");
+});
@@ -0,0 +1,271 @@
+import { expect, test } from "vitest";
+import {
+    any,
+    anyOf,
+    array,
+    catchError,
+    fail,
+    lazy,
+    mapOf,
+    maybe,
+    nullable,
+    nullish,
+    number,
+    oneOf,
+    preprocess,
+    record,
+    rest,
+    setOf,
+    strict,
+    string,
+    struct,
+    taggedUnion,
+    tuple,
+    validate,
+    ValidationError,
+    withMessage,
+    withMeta,
+    type Validator,
+} from "../src/index";
+import { filterAsync, mapAsync, validateAsync, type AsyncValidator } from "../src/async";
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const taken = async (x: any) => {
+    let name = validate(x, string());
+    await delay(1);
+    return name === "taken" ? fail("username is taken") : name;
+};
+
+test("validateAsync", async () => {
+    const schema = {
+        name: taken,
+        aliases: array(taken),
+        age: maybe(number(), 0),
+        tags: record(string(), taken),
+        pair: [taken, 1],
+    };
+
+    await expect(
+        validateAsync({ name: "a", aliases: ["b"], tags: { x: "c" }, pair: ["d", 1] }, schema),
+    ).resolves.toEqual({
+        name: "a",
+        aliases: ["b"],
+        age: 0,
+        tags: { x: "c" },
+        pair: ["d", 1],
+    });
+
+    for (let [input, path] of [
+        [{ name: "taken", aliases: [], tags: {}, pair: ["", 1] }, ["name"]],
+        [{ name: "", aliases: ["", "taken"], tags: {}, pair: ["", 1] }, [1, "aliases"]],
+        [{ name: "", aliases: [], tags: { x: "taken" }, pair: ["", 1] }, ["x", "tags"]],
+        [{ name: "", aliases: [], tags: {}, pair: ["taken", 1] }, ["0", "pair"]],
+    ] as const) {
+        await expect(validateAsync(input, schema)).rejects.toThrowError(
+            expect.objectContaining({ info: { type: "custom", message: "username is taken", path } }),
+        );
+    }
+
+    await expect(validateAsync({ name: 0 }, schema)).rejects.toThrowError(ValidationError);
+});
+
+test("validateAsync parallel", async () => {
+    let running = 0;
+    let peak = 0;
+    const slow: AsyncValidator<number> = async x => {
+        peak = Math.max(peak, ++running);
+        await delay(5);
+        running--;
+        return x;
+    };
+
+    await validateAsync({ a: 0, b: 0, c: [0, 0] }, { a: slow, b: slow, c: array(slow) });
+    expect(peak).toBe(4);
+});
+
+test("validateAsync combinators", async () => {
+    const positive = filterAsync(taken, async x => x.length > 0, "expected a name");
+    const upper = mapAsync(positive, async x => x.toUpperCase());
+
+    await expect(validateAsync("a", upper)).resolves.toBe("A");
+    await expect(validateAsync("", upper)).rejects.toThrowError(
+        expect.objectContaining({ info: { type: "custom", message: "expected a name", path: [] } }),
+    );
+
+    // called outside of validateAsync, the validators return promises that reject on failures
+    const ok = filterAsync(string(), async x => x === "ok");
+    await expect(validate("ok", ok)).resolves.toBe("ok");
+    await expect(validate("bad", ok)).rejects.toThrowError(ValidationError);
+    await expect(validate({ u: "bad" }, struct({ u: ok })).u).rejects.toThrowError(ValidationError);
+    await expect(validate("a", upper)).resolves.toBe("A");
+    await expect(validate("", upper)).rejects.toThrowError("expected a name");
+    await expect(validateAsync(1, anyOf(taken, number()))).resolves.toBe(1);
+    await expect(validateAsync("taken", anyOf(taken, number()))).rejects.toThrowError(
+        expect.objectContaining({ info: expect.objectContaining({ type: "union" }) }),
+    );
+    await expect(validateAsync("a", oneOf(taken, string()))).rejects.toThrowError(
+        expect.objectContaining({ info: { type: "unexpected", path: [] } }),
+    );
+    await expect(validateAsync("taken", oneOf(taken, string()))).resolves.toBe("taken");
+});
+
+test("validateAsync options", async () => {
+    await expect(validateAsync({ x: "a", y: 0 }, strict({ x: taken }))).rejects.toThrowError(
+        expect.objectContaining({ info: { type: "unknown_key", key: "y", path: ["y"] } }),
+    );
+
+    const input = Object.freeze({ x: 1, y: "taken", z: [] });
+    await expect(
+        validateAsync(input, { x: mapAsync(number(), x => x + 1), y: taken, z: string() }, { all: true, copy: true }),
+    ).rejects.toThrowError(
+        expect.objectContaining({
+            info: {
+                type: "multiple",
+                path: [],
+                errors: [
+                    { type: "custom", message: "username is taken", path: ["y"] },
+                    { type: "expected", expected: "string", path: ["z"] },
+                ],
+            },
+        }),
+    );
+    await expect(validateAsync(input, { x: mapAsync(number(), x => x + 1) }, { copy: true })).resolves.toEqual({
+        x: 2,
+        y: "taken",
+        z: [],
+    });
+
+    const value = { a: 1, b: 2 };
+    await expect(
+        validateAsync(value, anyOf({ a: number(), c: taken }, { a: number(), b: number() }), {
+            all: true,
+            unknown: "strip",
+        }),
+    ).resolves.toEqual({ a: 1, b: 2 });
+    expect(value).toEqual({ a: 1, b: 2 });
+
+    const nested = { inner: { a: "s", extra: 1 }, tag: "y" };
+    const alternatives = [
+        { inner: { a: taken }, tag: "x" },
+        { inner: { a: taken, extra: number() }, tag: "y" },
+    ];
+    for (const union of [anyOf(...alternatives), oneOf(...alternatives)]) {
+        await expect(validateAsync(nested, union, { unknown: "strip" })).resolves.toEqual(nested);
+        expect(nested).toEqual({ inner: { a: "s", extra: 1 }, tag: "y" });
+    }
+});
+
+test("validateAsync lazy", async () => {
+    type Tree = { name: string; children: Tree[] };
+    const tree: Validator<Tree> = struct({ name: taken, children: array(lazy(() => tree)) });
+
+    await expect(validateAsync({ name: "a", children: [{ name: "b", children: [] }] }, tree)).resolves.toBeTruthy();
+    await expect(validateAsync({ name: "a", children: [{ name: "taken", children: [] }] }, tree)).rejects.toThrowError(
+        expect.objectContaining({ info: expect.objectContaining({ path: ["name", 0, "children"] }) }),
+    );
+
+    const cyclic: any = { name: "a", children: [] };
+    cyclic.children.push(cyclic, cyclic);
+    await expect(validateAsync(cyclic, tree)).rejects.toThrowError(
+        expect.objectContaining({ info: { type: "cycle", path: [0, "children", 0, "children"] } }),
+    );
+});
+
+test("validateAsync taggedUnion", async () => {
+    const account = taggedUnion("type", { user: { name: taken }, bot: { owner: taken } });
+
+    await expect(validateAsync({ type: "user", name: "a" }, account)).resolves.toEqual({ type: "user", name: "a" });
+    await expect(validateAsync({ type: "bot", owner: "taken" }, account)).rejects.toThrowError(
+        expect.objectContaining({ info: { type: "custom", message: "username is taken", path: ["owner"] } }),
+    );
+    await expect(validateAsync({ type: "admin" }, account)).rejects.toThrowError(
+        expect.objectContaining({ info: expect.objectContaining({ type: "unknown_tag", path: ["type"] }) }),
+    );
+});
+
+test("validateAsync array bounds", async () => {
+    const names = array(taken, { minItems: 1, unique: true });
+
+    await expect(validateAsync(["a", "b"], names)).resolves.toEqual(["a", "b"]);
+    await expect(validateAsync([], names)).rejects.toThrowError(
+        expect.objectContaining({ info: expect.objectContaining({ type: "too_small", subject: "array" }) }),
+    );
+    await expect(validateAsync(["a", "b", "a"], names)).rejects.toThrowError(
+        expect.objectContaining({ info: { type: "duplicate", index: 0, path: [2] } }),
+    );
+});
+
+test("validateAsync mapOf and setOf", async () => {
+    const owners = mapOf(string(), taken);
+    const input = new Map([["a", "x"]]);
+    await expect(validateAsync(input, owners)).resolves.toBe(input);
+    await expect(
+        validateAsync(
+            new Map([
+                ["a", "x"],
+                ["b", "taken"],
+            ]),
+            owners,
+        ),
+    ).rejects.toThrowError(
+        expect.objectContaining({ info: { type: "custom", message: "username is taken", path: ["b"] } }),
+    );
+
+    const upper = mapAsync(taken, async x => x.toUpperCase());
+    await expect(validateAsync(new Map([[upper, upper]]), mapOf(any(), upper))).rejects.toThrowError(
+        expect.objectContaining({ info: expect.objectContaining({ path: [0] }) }),
+    );
+    await expect(validateAsync(new Map([["a", "b"]]), mapOf(upper, upper)).then(x => [...x])).resolves.toEqual([
+        ["A", "B"],
+    ]);
+    await expect(validateAsync(new Set(["a", "b"]), setOf(upper)).then(x => [...x])).resolves.toEqual(["A", "B"]);
+    await expect(validateAsync(new Set(["a", "taken"]), setOf(taken))).rejects.toThrowError(
+        expect.objectContaining({ info: expect.objectContaining({ path: [1] }) }),
+    );
+});
+
+test("validateAsync nullish and preprocess", async () => {
+    const schema = {
+        name: preprocess((x: unknown) => (typeof x === "string" ? x.trim() : x), taken),
+        tags: nullish(array(taken), () => []),
+        note: nullable(taken),
+    };
+
+    await expect(validateAsync({ name: " a ", tags: null, note: null }, schema)).resolves.toEqual({
+        name: "a",
+        tags: [],
+        note: null,
+    });
+    await expect(validateAsync({ name: " taken ", note: "b" }, schema)).rejects.toThrowError(
+        expect.objectContaining({ info: { type: "custom", message: "username is taken", path: ["name"] } }),
+    );
+});
+
+test("validateAsync tuple", async () => {
+    const command = tuple([taken, maybe(number())], rest(taken));
+
+    await expect(validateAsync(["a", 0, "b"], command)).resolves.toEqual(["a", 0, "b"]);
+    await expect(validateAsync([], command)).rejects.toThrowError(
+        expect.objectContaining({ info: { type: "expected", expected: "array[1..]", path: [] } }),
+    );
+    await expect(validateAsync(["a", 0, "b", "taken"], command)).rejects.toThrowError(
+        expect.objectContaining({ info: { type: "custom", message: "username is taken", path: [3] } }),
+    );
+});
+
+test("validateAsync error combinators", async () => {
+    const schema = {
+        name: withMeta(withMessage(taken, "pick another name"), { code: "E_NAME" }),
+        nickname: catchError(taken, (info, x) => `${x}_${info.type}`),
+    };
+
+    await expect(validateAsync({ name: "a", nickname: "taken" }, schema)).resolves.toEqual({
+        name: "a",
+        nickname: "taken_custom",
+    });
+    await expect(validateAsync({ name: "taken", nickname: "b" }, schema)).rejects.toThrowError(
+        expect.objectContaining({
+            info: { type: "custom", message: "pick another name", path: ["name"], meta: { code: "E_NAME" } },
+        }),
+    );
+});
@@ -0,0 +1,128 @@
+import { expect, test } from "vitest";
+import { array, definition, maybe, string, ValidationError } from "../src/index";
+import { check } from "../src/arbitrary";
+import { coerce, validateParams } from "../src/coerce";
+import { document, example } from "../src/document";
+import { toJsonSchema } from "../src/json-schema";
+import { transforms } from "./util";
+
+test("coerce.number", () =>
+    transforms<number>(
+        coerce.number(),
+        [
+            [0, 0],
+            [1.5, 1.5],
+            ["0", 0],
+            ["-1.5", -1.5],
+            ["+2", 2],
+            [".5", 0.5],
+            ["1e3", 1000],
+        ],
+        ["", " ", "1 ", "0x10", "1,5", "NaN", "Infinity", "1e999", "abc", NaN, null, undefined, true, {}, []],
+    ));
+
+test("coerce.integer", () =>
+    transforms<number>(
+        coerce.integer(),
+        [
+            [1, 1],
+            ["1", 1],
+            ["-20", -20],
+            ["1e2", 100],
+        ],
+        ["1.5", "", "a", 0.5, null, true],
+    ));
+
+test("coerce.boolean", () =>
+    transforms<boolean>(
+        coerce.boolean(),
+        [
+            [true, true],
+            [false, false],
+            ["true", true],
+            ["1", true],
+            ["yes", true],
+            ["on", true],
+            ["false", false],
+            ["0", false],
+            ["no", false],
+            ["off", false],
+        ],
+        ["", "TRUE", "y", "2", "toString", 1, 0, null, undefined, {}],
+    ));
+
+test("coerce.date", () =>
+    transforms<Date>(
+        coerce.date(),
+        [
+            [0, new Date(0)],
+            [new Date(1000), new Date(1000)],
+            ["2001-09-09", new Date("2001-09-09T00:00:00Z")],
+            ["2001-09-09T01:46:40Z", new Date(1000000000000)],
+            ["2001-09-09T03:46:40.000+02:00", new Date(1000000000000)],
+        ],
+        [
+            "",
+            "2001-02-30",
+            "2001-13-01",
+            "2001-02-30T00:00:00Z",
+            "2001-02-03T00:00:00",
+            "2001-02-03T00:00",
+            "2001-02-03T24:00:00Z",
+            "09/09/2001",
+            "1000000000000",
+            "tomorrow",
+            new Date(NaN),
+            NaN,
+            null,
+            {},
+        ],
+    ));
+
+test("coerce.bigint", () => {
+    // bigints cannot be serialized by the test helpers
+    const validator = coerce.bigint();
+    expect(validator(1n)).toBe(1n);
+    expect(validator(10)).toBe(10n);
+    expect(validator("-5")).toBe(-5n);
+    expect(validator("123456789012345678901234567890")).toBe(123456789012345678901234567890n);
+    for (let x of ["", "1.5", "1e3", "0x10", 1.5, 2 ** 60, null, true])
+        expect(() => validator(x)).toThrowError(ValidationError);
+});
+
+test("coerce definitions", () => {
+    const schema = { page: coerce.integer({ min: 1 }), ratio: coerce.number({ max: 1 }), at: coerce.date() };
+
+    expect(definition(schema.page)).toMatchObject({ kind: "preprocess", schema: expect.any(Function) });
+    expect(toJsonSchema(schema)).toMatchObject({
+        properties: { page: { type: "integer", minimum: 1 }, ratio: { type: "number", maximum: 1 } },
+    });
+    expect(example(schema)).toEqual({ page: 1, ratio: 0, at: new Date(0) });
+    expect(document(schema)).toContain("| `page` | `integer (>= 1)` | yes |");
+    check({ ...schema, on: coerce.boolean(), id: coerce.bigint() });
+});
+
+test("validateParams", () => {
+    const schema = {
+        page: maybe(coerce.integer(), 1),
+        tag: array(string()),
+        id: array(coerce.bigint()),
+        q: maybe(string()),
+    };
+
+    expect(validateParams(new URLSearchParams("page=2&tag=a&tag=b&id=1&q=x&q=y"), schema)).toEqual({
+        page: 2,
+        tag: ["a", "b"],
+        id: [1n],
+        q: "x",
+    });
+    expect(() => validateParams(new URLSearchParams("page=a"), schema)).toThrowError(
+        expect.objectContaining({ info: { type: "expected", expected: "integer", path: ["page"] } }),
+    );
+
+    const form = new FormData();
+    form.append("tag", "a");
+    form.append("id", "1");
+    form.append("id", "2");
+    expect(validateParams(form, schema)).toEqual({ page: 1, tag: ["a"], id: [1n, 2n] });
+});
@@ -0,0 +1,29 @@
+import { bench, describe } from "vitest";
+import { anyOf, array, boolean, integer, maybe, number, record, string, struct } from "../src/index";
+import { compile } from "../src/compile";
+
+const schema = {
+    id: integer(),
+    cart: array({ item: string(), qty: maybe(integer(), 1), price: number() }),
+    payment: anyOf({ type: "paypal", email: string() }, { type: "card", number: string(), cvc: string() }),
+    flags: record(string(), boolean()),
+    point: [number(), number()],
+};
+
+const input = {
+    id: 1,
+    cart: Array.from({ length: 20 }, (_, i) => ({ item: `item ${i}`, qty: i, price: i / 2 })),
+    payment: { type: "card", number: "4242424242424242", cvc: "123" },
+    flags: { a: true, b: false },
+    point: [0, 1],
+};
+
+const interpreted = struct(schema);
+const generated = compile(schema);
+const specialized = compile(schema, false);
+
+describe("validate", () => {
+    bench("struct", () => void interpreted(input));
+    bench("compile", () => void generated(input));
+    bench("compile without code generation", () => void specialized(input));
+});
@@ -0,0 +1,121 @@
+import { expect, test } from "vitest";
+import {
+    allOf,
+    anyOf,
+    array,
+    boolean,
+    integer,
+    lazy,
+    map,
+    maybe,
+    number,
+    oneOf,
+    record,
+    safeValidate,
+    strict,
+    string,
+    struct,
+    taggedUnion,
+    validate,
+    type Options,
+    type Schema,
+    type Validator,
+} from "../src/index";
+import { compile } from "../src/compile";
+
+const outcome = (f: () => any) => {
+    try {
+        return { ok: true, value: f() };
+    } catch (e) {
+        return { ok: false, error: e };
+    }
+};
+
+const identical = (schema: Schema<any>, inputs: any[], options?: Options) => {
+    for (let generated of [true, false]) {
+        const compiled = struct(compile(schema, generated), options);
+        for (let input of inputs) {
+            const expected = outcome(() => validate(structuredClone(input), schema, options));
+            expect(
+                outcome(() => compiled(structuredClone(input))),
+                JSON.stringify(input),
+            ).toEqual(expected);
+        }
+    }
+};
+
+type Tree = { value: number; children: Tree[] };
+const tree: Validator<Tree> = struct({ value: number(), children: array(lazy(() => tree)) });
+
+const order = {
+    id: integer(),
+    cart: array({ item: string(), qty: maybe(integer(), 1) }),
+    payment: anyOf({ type: "paypal", email: string() }, { type: "card", number: string(/^\d+$/) }),
+    time: map(number(), x => new Date(x * 1000)),
+    flags: record(string(), boolean()),
+    point: [number(), number()],
+    kind: oneOf("a", allOf(string(), "b")),
+    tree,
+    literal: null,
+    event: taggedUnion("on", { click: { x: number() }, key: { code: string() } }),
+};
+
+const inputs = [
+    {
+        id: 1,
+        cart: [{ item: "a" }, { item: "b", qty: 2 }],
+        payment: { type: "paypal", email: "" },
+        time: 0,
+        flags: { x: true },
+        point: [0, 1],
+        kind: "b",
+        tree: { value: 0, children: [{ value: 1, children: [] }] },
+        literal: null,
+        event: { on: "click", x: 0 },
+        extra: 0,
+    },
+    {
+        id: 1.5,
+        cart: [{ item: 0, qty: "1" }, null],
+        payment: { type: "card", number: "x" },
+        time: "0",
+        flags: { x: 0 },
+        point: [0, 1, 2],
+        kind: "c",
+        tree: { value: 0, children: [{ value: "1", children: [] }] },
+        literal: undefined,
+        event: { on: "key", x: 0 },
+    },
+    { id: 0, event: { on: "drag" } },
+    [],
+    null,
+    "",
+];
+
+test("compile", () => {
+    identical(order, inputs);
+    identical(order, inputs, { all: true });
+    identical(order, inputs, { unknown: "strip" });
+    identical(order, inputs, { unknown: "strict", all: true });
+    identical(strict({ x: { y: number() } }), [{ x: { y: 0 } }, { x: { y: 0, z: 0 } }, { x: { y: "" }, z: 0 }]);
+    identical("a", ["a", "b", null]);
+    identical(["a", { 'a"b': number() }], [["a", { 'a"b': 0 }], ["a", { 'a"b': "" }], ["a"]]);
+});
+
+test("compile copy-on-write", () => {
+    const input = Object.freeze({ time: 0, cart: Object.freeze([Object.freeze({ item: "" })]) });
+    const schema = { time: order.time, cart: order.cart };
+    const compiled = compile(schema);
+
+    expect(validate(input, compiled, { copy: true })).toEqual({ time: new Date(0), cart: [{ item: "", qty: 1 }] });
+    expect(input).toEqual({ time: 0, cart: [{ item: "" }] });
+});
+
+test("compile lazy", () => {
+    const compiled = compile(tree);
+    const cyclic: any = { value: 0, children: [] };
+    cyclic.children.push(cyclic);
+
+    expect(safeValidate(cyclic, compiled)).toEqual(safeValidate(cyclic, tree));
+    expect(safeValidate(cyclic, compiled)).toMatchObject({ ok: false, error: { type: "cycle" } });
+});
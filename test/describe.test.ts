@@ -0,0 +1,131 @@
+import { expect, test } from "vitest";
+import {
+    anyOf,
+    array,
+    brand,
+    definition,
+    filter,
+    integer,
+    isWrapper,
+    lazy,
+    map,
+    maybe,
+    number,
+    record,
+    rest,
+    string,
+    strict,
+    taggedUnion,
+    tuple,
+    validate,
+    wrap,
+    type Schema,
+    type Validator,
+} from "../src/index";
+import { children, describe, transform, walk, type Node } from "../src/describe";
+
+test("describe", () => {
+    const id = brand(integer({ min: 1 }), "Id");
+    const custom = (x: any) => x;
+    const schema = strict({
+        id,
+        name: maybe(string(/^\w+$/), "anonymous"),
+        tags: array(string(), { maxItems: 3 }),
+        point: [number(), number()],
+        kind: anyOf("a", "b"),
+        custom,
+    });
+
+    expect(describe(schema)).toMatchObject({
+        kind: "struct",
+        options: { unknown: "strict" },
+        source: schema,
+        schema: {
+            kind: "object",
+            properties: {
+                id: { kind: "brand", brand: "Id", schema: { kind: "integer", bounds: { min: 1 } }, source: id },
+                name: { kind: "maybe", default: "anonymous", schema: { kind: "string", regex: /^\w+$/ } },
+                tags: { kind: "array", bounds: { maxItems: 3 }, schema: { kind: "string" } },
+                point: { kind: "elements", elements: [{ kind: "number" }, { kind: "number" }] },
+                kind: {
+                    kind: "anyOf",
+                    schemas: [
+                        { kind: "literal", value: "a" },
+                        { kind: "literal", value: "b" },
+                    ],
+                },
+                custom: { kind: "custom", source: custom },
+            },
+        },
+    });
+    expect(describe(schema)).toBe(describe(schema));
+    expect(describe(null)).toEqual({ kind: "literal", value: null, source: null });
+
+    const shape = taggedUnion("type", { dot: { type: "dot" }, line: { type: "line", length: number() } });
+    expect(children(describe(shape)).map(x => x.kind)).toEqual(["object", "object"]);
+    expect(children(describe(tuple([string()], rest(number()))))).toMatchObject([
+        { kind: "string" },
+        { kind: "number" },
+    ]);
+});
+
+test("walk", () => {
+    type Tree = { value: string; children: Tree[] };
+    const tree: Validator<Tree> = lazy(() => ({ value: string(/^[a-z]$/), children: array(tree) }));
+
+    const kinds: string[] = [];
+    walk(tree, (node, parents) => {
+        kinds.push(`${parents.length}:${node.kind}`);
+    });
+    expect(kinds).toEqual(["0:lazy", "1:object", "2:string", "2:array", "3:lazy"]);
+
+    const visited: Node["kind"][] = [];
+    walk({ a: record(string(), number()), b: [string()] }, node => {
+        visited.push(node.kind);
+        return node.kind !== "record";
+    });
+    expect(visited).toEqual(["object", "record", "elements", "string"]);
+});
+
+test("transform", () => {
+    const item = { name: string(), qty: integer() };
+    const schema = strict({ items: array(item), note: maybe(string()), total: number() });
+
+    const trimmed = transform(schema, node =>
+        node.kind === "string" ? map(node.source as Validator<string>, x => x.trim()) : node.source,
+    );
+    expect(validate({ items: [{ name: " a ", qty: 1 }], note: " b ", total: 1 }, trimmed)).toEqual({
+        items: [{ name: "a", qty: 1 }],
+        note: "b",
+        total: 1,
+    });
+    expect(() => validate({ items: [], total: 1, other: 0 }, trimmed)).toThrowError();
+
+    expect(transform(schema, node => node.source)).toBe(schema);
+    const numbers = transform(schema, node => (node.kind === "number" ? integer() : node.source));
+    const properties = (schema: Schema<any>) => (describe(schema) as any).schema.properties;
+    expect(properties(numbers).items.source).toBe(properties(schema).items.source);
+    expect(() => validate({ items: [], total: 1.5 }, numbers)).toThrowError();
+    expect(validate({ items: [], total: 1 }, numbers)).toEqual({ items: [], total: 1 });
+
+    type List = { head: string; tail?: List };
+    const list: Validator<List> = lazy(() => ({ head: string(), tail: maybe(list) }));
+    const upper = transform(list, node =>
+        node.kind === "string" ? map(node.source as Validator<string>, x => x.toUpperCase()) : node.source,
+    );
+    expect(validate({ head: "a", tail: { head: "b" } }, upper)).toEqual({ head: "A", tail: { head: "B" } });
+});
+
+test("wrap", () => {
+    const def = definition(filter(brand(string(), "Id"), x => x !== "root", "reserved"));
+    expect(isWrapper(def)).toBe(true);
+    expect(isWrapper(definition(array(string())))).toBe(false);
+    expect(isWrapper(describe(brand(string(), "Id")))).toBe(true);
+    if (!isWrapper(def)) return;
+
+    const rewrapped = wrap({ ...def, schema: string({ minLength: 1 }) });
+    expect(definition(rewrapped)).toMatchObject({ kind: "filter", message: "reserved" });
+    expect(validate("a", rewrapped)).toBe("a");
+    expect(() => validate("", rewrapped)).toThrowError();
+    expect(() => validate("root", rewrapped)).toThrowError("reserved");
+});
@@ -0,0 +1,28 @@
+import { existsSync } from "node:fs";
+import { createRequire } from "node:module";
+import { expect, test } from "vitest";
+
+// runs against the build, so that `npm run ci` checks what gets published
+const built = existsSync(new URL("../dist/index.cjs", import.meta.url));
+const require = createRequire(import.meta.url);
+
+const formats: Record<string, (entry: string) => Promise<any>> = {
+    cjs: async entry => require(`../dist/${entry}.cjs`),
+    esm: entry => import(`../dist/${entry}.js`),
+};
+
+for (const [format, load] of Object.entries(formats)) {
+    test.skipIf(!built)(`${format} entries share the core`, async () => {
+        const { string, validate, ValidationError } = await load("index");
+        const { toJsonSchema } = await load("json-schema");
+        const { compile } = await load("compile");
+        const { email } = await load("string-formats");
+
+        // definitions of validators made by one entry are visible to the others
+        expect(toJsonSchema({ a: string() })).toMatchObject({ properties: { a: { type: "string" } } });
+        expect(toJsonSchema(email())).toEqual({ type: "string", format: "email" });
+        // errors thrown by any entry are instances of the same class
+        expect(() => validate("x", email())).toThrowError(ValidationError);
+        expect(() => compile({ a: string() })({ a: 0 })).toThrowError(ValidationError);
+    });
+}
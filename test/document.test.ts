@@ -0,0 +1,127 @@
+import { expect, test } from "vitest";
+import {
+    annotate,
+    anyOf,
+    array,
+    brand,
+    catchError,
+    definition,
+    filter,
+    integer,
+    lazy,
+    mapOf,
+    maybe,
+    number,
+    oneOf,
+    preprocess,
+    record,
+    string,
+    struct,
+    taggedUnion,
+    tuple,
+    validate,
+    type Validator,
+} from "../src/index";
+import { example, document } from "../src/document";
+import { toJsonSchema } from "../src/json-schema";
+
+const order = struct({
+    id: annotate(brand(integer({ min: 1 }), "OrderId"), { description: "Order number" }),
+    email: annotate(string(/^\S+@\S+$/), { description: "Where | receipts are sent", example: "jane@example.com" }),
+    items: array({ sku: string(/^[A-Z]{3}-\d{2}$/), qty: maybe(integer({ min: 1, max: 9 }), 1) }, { minItems: 1 }),
+    payment: taggedUnion("type", {
+        card: { type: "card", number: string({ minLength: 12 }) },
+        cash: { type: "cash" },
+    }),
+    status: anyOf("new", "paid"),
+    tags: record(string(), number()),
+    point: tuple([number({ exclusiveMin: 0 }), number()]),
+});
+
+test("annotate", () => {
+    const email = annotate(string(), { description: "An email", example: "a@b.c" });
+    expect(email("x")).toBe("x");
+    expect(() => email(0)).toThrowError();
+    expect(definition(email)).toMatchObject({ kind: "annotate", annotation: { description: "An email" } });
+    expect(toJsonSchema(email)).toEqual({ type: "string", description: "An email", examples: ["a@b.c"] });
+});
+
+test("example", () => {
+    const value = example(order);
+    expect(value).toEqual({
+        id: 1,
+        email: "jane@example.com",
+        items: [{ sku: "AAA-00", qty: 1 }],
+        payment: { type: "card", number: "string______" },
+        status: "new",
+        tags: { string: 0 },
+        point: [1, 0],
+    });
+    expect(validate(value, order)).toEqual(value);
+    expect(example(order)).toEqual(value);
+
+    type Tree = { name: string; children: Tree[]; parent?: Tree };
+    const tree: Validator<Tree> = lazy(() => ({ name: string(), children: array(tree), parent: maybe(tree) }));
+    expect(example(tree)).toEqual({
+        name: "string",
+        children: [{ name: "string", children: [] }],
+        parent: { name: "string", children: [] },
+    });
+
+    type List = { next: List | null };
+    const list: Validator<List> = lazy(() => ({ next: oneOf(list, null) }));
+    expect(example(list)).toEqual({ next: { next: null } });
+
+    expect(example(mapOf(string(), number({ min: 5, multipleOf: 3 })))).toEqual(new Map([["string", 6]]));
+    expect(() => example({ x: (x: any) => x })).toThrowError("annotate it with an example");
+    expect(() => example(filter(string(), x => x === "a"))).toThrowError("annotate it with an example");
+    expect(example(annotate((x: any) => x, { example: 5 }))).toBe(5);
+});
+
+test("document", () => {
+    expect(document(order)).toBe(
+        [
+            "| Field | Type | Required | Default | Description | Example |",
+            "| --- | --- | --- | --- | --- | --- |",
+            "| `id` | `integer (>= 1)` | yes |  | Order number |  |",
+            '| `email` | `string matching /^\\S+@\\S+$/` | yes |  | Where \\| receipts are sent | `"jane@example.com"` |',
+            "| `items` | `object[] (at least 1 items)` | yes |  |  |  |",
+            "| `items[]` | `object` | yes |  |  |  |",
+            "| `items[].sku` | `string matching /^[A-Z]{3}-\\d{2}$/` | yes |  |  |  |",
+            "| `items[].qty` | `integer (>= 1, <= 9) \\| undefined` | no | `1` |  |  |",
+            "| `payment` | `object \\| object` | yes |  |  |  |",
+            "| `payment#card` | `object` | yes |  |  |  |",
+            '| `payment#card.type` | `"card"` | yes |  |  |  |',
+            "| `payment#card.number` | `string (at least 12 characters)` | yes |  |  |  |",
+            "| `payment#cash` | `object` | yes |  |  |  |",
+            '| `payment#cash.type` | `"cash"` | yes |  |  |  |',
+            '| `status` | `"new" \\| "paid"` | yes |  |  |  |',
+            "| `tags` | `Record<string, number>` | yes |  |  |  |",
+            "| `tags[*]` | `number` | yes |  |  |  |",
+            "| `point` | `[number (> 0), number]` | yes |  |  |  |",
+            "| `point[0]` | `number (> 0)` | yes |  |  |  |",
+            "| `point[1]` | `number` | yes |  |  |  |",
+        ].join("\n"),
+    );
+
+    expect(document(maybe(string(), "a"))).toBe(
+        [
+            "| Field | Type | Required | Default | Description | Example |",
+            "| --- | --- | --- | --- | --- | --- |",
+            '| `(root)` | `string \\| undefined` | no | `"a"` |  |  |',
+        ].join("\n"),
+    );
+
+    type Tree = { name: string; children: Tree[] };
+    const tree: Validator<Tree> = lazy(() => ({ name: string(), children: array(tree) }));
+    expect(document({ tree })).toContain("| `tree.children[]` | `object` | yes |  |  |  |");
+
+    let calls = 0;
+    const form = {
+        name: preprocess((x: string) => x.trim(), string()),
+        page: catchError(integer(), () => ++calls),
+    };
+    expect(document(form)).toContain("| `name` | `string` | yes |  |  |  |");
+    expect(document(form)).toContain("| `page` | `integer` | no |  |  |  |");
+    expect(calls).toBe(0);
+});
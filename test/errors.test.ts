@@ -0,0 +1,167 @@
+import { expect, test } from "vitest";
+import {
+    anyOf,
+    array,
+    catchError,
+    flatten,
+    integer,
+    number,
+    oneOf,
+    record,
+    safe,
+    safeValidate,
+    string,
+    struct,
+    validate,
+    ValidationError,
+    withMessage,
+    withMeta,
+} from "../src/index";
+
+test("safeValidate", () => {
+    expect(safeValidate(5, number())).toEqual({ ok: true, value: 5 });
+    expect(safeValidate({ x: [0, "1"] }, { x: array(number()) })).toEqual({
+        ok: false,
+        error: { type: "expected", expected: "finite number", path: [1, "x"] },
+    });
+    expect(() =>
+        safeValidate(0, () => {
+            throw new TypeError();
+        }),
+    ).toThrowError(TypeError);
+});
+
+test("safe", () => {
+    const validator = safe({ x: anyOf(number(), string()) });
+    expect(validator({ x: "" })).toEqual({ ok: true, value: { x: "" } });
+    expect(validator({ x: null })).toEqual({
+        ok: false,
+        error: {
+            type: "union",
+            path: ["x"],
+            failures: [
+                { type: "expected", expected: "finite number", path: [] },
+                { type: "expected", expected: "string", path: [] },
+            ],
+        },
+    });
+});
+
+test("oneOf failures", () => {
+    const validator = oneOf(number(), "a");
+    expect(() => validator(0.5)).not.toThrowError();
+    expect(safe(validator)("a")).toEqual({ ok: true, value: "a" });
+    expect(safe(validator)(null)).toMatchObject({ ok: false, error: { type: "union" } });
+    expect(() => oneOf(number(), 1)(1)).toThrowError(ValidationError);
+});
+
+test("all errors", () => {
+    const schema = {
+        name: string(),
+        cart: array({ item: string(), qty: number() }),
+        tags: record(string(/^[a-z]+$/), string()),
+    };
+
+    const result = safeValidate({ cart: [{ item: "a", qty: 1 }, { qty: "2" }], tags: { a: "", B: 0 } }, schema, {
+        all: true,
+    });
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && flatten(result.error)).toEqual([
+        { type: "expected", expected: "string", path: ["name"] },
+        { type: "expected", expected: "string", path: ["item", 1, "cart"] },
+        { type: "expected", expected: "finite number", path: ["qty", 1, "cart"] },
+        { type: "expected", expected: "string", path: ["B", "tags"] },
+        {
+            type: "key",
+            path: ["B", "tags"],
+            error: { type: "expected", expected: "string matching /^[a-z]+$/", path: [] },
+        },
+    ]);
+
+    expect(() => validate({ x: 0 }, { x: string(), y: string() })).toThrowError(
+        expect.objectContaining({ info: { type: "expected", expected: "string", path: ["x"] } }),
+    );
+    expect(() => struct({ x: string(), y: string() }, { all: true })({ x: 0 })).toThrowError(
+        expect.objectContaining({ info: expect.objectContaining({ type: "multiple" }) }),
+    );
+    expect(validate({ x: "" }, { x: string() }, { all: true })).toEqual({ x: "" });
+});
+
+test("flatten", () =>
+    expect(
+        flatten({
+            type: "multiple",
+            path: ["outer"],
+            errors: [
+                { type: "unexpected", path: ["a"] },
+                { type: "multiple", path: [0], errors: [{ type: "custom", message: "", path: ["b"] }] },
+            ],
+        }),
+    ).toEqual([
+        { type: "unexpected", path: ["a", "outer"] },
+        { type: "custom", message: "", path: ["b", 0, "outer"] },
+    ]));
+
+test("catchError", () => {
+    const schema = {
+        page: catchError(integer({ min: 1 }), 1),
+        tags: catchError(array(string()), (info, x) => [info.type, x]),
+    };
+    expect(validate({ page: "2", tags: ["a"] }, schema)).toEqual({ page: 1, tags: ["a"] });
+    expect(validate({ tags: 0 }, schema)).toEqual({ page: 1, tags: ["expected", 0] });
+    expect(() =>
+        catchError(() => {
+            throw new TypeError();
+        }, 0)(null),
+    ).toThrowError(TypeError);
+});
+
+test("withMessage", () => {
+    const schema = {
+        zip: withMessage(string(/^\d{5}$/), "expected a zip code"),
+        age: withMessage(integer({ min: 18 }), info => (info.type === "too_small" ? "must be an adult" : info)),
+        cart: array({ qty: withMessage(number(), { type: "expected", expected: "quantity" }) }),
+    };
+    expect(safeValidate({ zip: "1234" }, schema)).toEqual({
+        ok: false,
+        error: { type: "custom", message: "expected a zip code", path: ["zip"] },
+    });
+    expect(safeValidate({ zip: "12345", age: 17 }, schema)).toMatchObject({
+        error: { type: "custom", message: "must be an adult", path: ["age"] },
+    });
+    expect(safeValidate({ zip: "12345", age: 0.5 }, schema)).toMatchObject({
+        error: { type: "expected", expected: "integer", path: ["age"] },
+    });
+    expect(safeValidate({ zip: "12345", age: 18, cart: [{ qty: "1" }] }, schema)).toEqual({
+        ok: false,
+        error: { type: "expected", expected: "quantity", path: ["qty", 0, "cart"] },
+    });
+});
+
+test("withMeta", () => {
+    const schema = withMeta(
+        {
+            email: withMeta(string(), { code: "E_EMAIL" }),
+            name: withMessage(withMeta(string(), { field: "name" }), "expected a name"),
+            age: number(),
+        },
+        { code: "E_USER", form: "signup" },
+    );
+    expect(safeValidate({ email: 0 }, schema)).toEqual({
+        ok: false,
+        error: { type: "expected", expected: "string", path: ["email"], meta: { code: "E_EMAIL", form: "signup" } },
+    });
+
+    const result = safeValidate({ age: "1" }, schema, { all: true });
+    expect(!result.ok && flatten(result.error)).toEqual([
+        { type: "expected", expected: "string", path: ["email"], meta: { code: "E_EMAIL", form: "signup" } },
+        {
+            type: "custom",
+            message: "expected a name",
+            path: ["name"],
+            meta: { code: "E_USER", form: "signup", field: "name" },
+        },
+        { type: "expected", expected: "finite number", path: ["age"], meta: { code: "E_USER", form: "signup" } },
+    ]);
+});
@@ -0,0 +1,62 @@
+import { expect, test } from "vitest";
+import { anyOf, array, number, integer, record, safeValidate, string, taggedUnion, type ErrorInfo } from "../src/index";
+import { formatError, formatPath } from "../src/format";
+
+const error = (x: any, schema: any, all?: boolean): ErrorInfo => {
+    const result = safeValidate(x, schema, { all });
+    if (result.ok) throw new Error("expected to fail");
+    return result.error;
+};
+
+test("formatPath", () => {
+    expect(formatPath([])).toBe("");
+    expect(formatPath(["qty", 2, "cart"])).toBe("cart[2].qty");
+    expect(formatPath([0, "a b", "x"])).toBe('x["a b"][0]');
+    expect(formatPath([1, 0])).toBe("[0][1]");
+});
+
+test("formatError", () => {
+    expect(formatError(error("", number()))).toBe("expected finite number");
+    expect(formatError(error({ cart: [{ qty: 1 }, { qty: 0.5 }] }, { cart: array({ qty: integer() }) }))).toBe(
+        "cart[1].qty: expected integer",
+    );
+
+    const payment = { payment: anyOf({ type: "paypal", email: string() }, { type: "card", number: string() }) };
+    expect(formatError(error({ payment: { type: "card" } }, payment))).toBe(
+        [
+            "payment: none of the alternatives matched",
+            '  payment.type: expected "paypal"',
+            "  payment.number: expected string",
+        ].join("\n"),
+    );
+
+    expect(formatError(error({ tags: { A: "", b: 0 } }, { tags: record(string(/^[a-z]$/), string()) }, true))).toBe(
+        ["tags.A: invalid key", "  expected string matching /^[a-z]$/", "tags.b: expected string"].join("\n"),
+    );
+});
+
+test("formatError taggedUnion", () =>
+    expect(formatError(error({ event: { on: "drag" } }, { event: taggedUnion("on", { click: {}, key: {} }) }))).toBe(
+        'event.on: unknown tag "drag", expected one of "click", "key"',
+    ));
+
+test("formatError messages", () =>
+    expect(
+        formatError(error({ x: null }, { x: anyOf(number(), "a") }), {
+            expected: e => `attendu ${e.expected}`,
+            union: () => "aucune alternative ne correspond",
+        }),
+    ).toBe(["x: aucune alternative ne correspond", "  attendu finite number", '  attendu "a"'].join("\n")));
+
+test("formatError bounds", () => {
+    expect(formatError(error(0, number({ exclusiveMin: 0 })))).toBe("expected a number > 0");
+    expect(formatError(error(11, integer({ max: 10 })))).toBe("expected a number <= 10");
+    expect(formatError(error(3, integer({ multipleOf: 2 })))).toBe("expected a multiple of 2");
+    expect(formatError(error({ name: "" }, { name: string({ minLength: 1 }) }))).toBe(
+        "name: expected at least 1 characters",
+    );
+    expect(formatError(error([1, 2, 1], array(number(), { maxItems: 2, unique: true })))).toBe(
+        "expected at most 2 items",
+    );
+    expect(formatError(error([1, 2, 1], array(number(), { unique: true })))).toBe("[2]: duplicate of the item at [0]");
+});
@@ -0,0 +1,292 @@
+import { expect, test } from "vitest";
+import {
+    allOf,
+    any,
+    anyOf,
+    array,
+    boolean,
+    definition,
+    filter,
+    integer,
+    lazy,
+    map,
+    maybe,
+    nullable,
+    nullish,
+    number,
+    oneOf,
+    preprocess,
+    record,
+    strict,
+    string,
+    struct,
+    taggedUnion,
+    tuple,
+    rest,
+    type Validator,
+} from "../src/index";
+import { fromJsonSchema, toJsonSchema } from "../src/json-schema";
+import { validates } from "./util";
+
+test("definition", () => {
+    const regex = /^a/;
+    const item = number();
+    expect(definition(string(regex))).toEqual({ kind: "string", regex });
+    expect(definition(array(item))).toEqual({ kind: "array", schema: item });
+    expect(definition(maybe(item, 1))).toEqual({ kind: "maybe", schema: item, default: 1 });
+    expect(definition(x => x)).toBeUndefined();
+});
+
+test("toJsonSchema primitives", () => {
+    expect(toJsonSchema(string())).toEqual({ type: "string" });
+    expect(toJsonSchema(string(/^[a-z]+$/))).toEqual({ type: "string", pattern: "^[a-z]+$" });
+    expect(toJsonSchema(number())).toEqual({ type: "number" });
+    expect(toJsonSchema(integer())).toEqual({ type: "integer" });
+    expect(toJsonSchema(boolean())).toEqual({ type: "boolean" });
+    expect(toJsonSchema(string(/^a/, { minLength: 1, maxLength: 8 }))).toEqual({
+        type: "string",
+        pattern: "^a",
+        minLength: 1,
+        maxLength: 8,
+    });
+    expect(toJsonSchema(number({ min: 0, exclusiveMax: 1 }))).toStrictEqual({
+        type: "number",
+        minimum: 0,
+        exclusiveMaximum: 1,
+    });
+    expect(toJsonSchema(integer({ multipleOf: 5 }))).toEqual({ type: "integer", multipleOf: 5 });
+    expect(toJsonSchema(any())).toEqual({});
+    expect(toJsonSchema(null)).toEqual({ type: "null" });
+    expect(toJsonSchema("a")).toEqual({ const: "a" });
+    expect(toJsonSchema(1)).toEqual({ const: 1 });
+});
+
+test("toJsonSchema structures", () => {
+    expect(
+        toJsonSchema({
+            x: string(),
+            y: maybe(integer(), 0),
+            z: anyOf("a", "b", undefined),
+            w: [number(), boolean()],
+            v: array(record(string(), number())),
+        }),
+    ).toEqual({
+        type: "object",
+        properties: {
+            x: { type: "string" },
+            y: { type: "integer", default: 0 },
+            z: { anyOf: [{ const: "a" }, { const: "b" }] },
+            w: { type: "array", prefixItems: [{ type: "number" }, { type: "boolean" }], items: false, minItems: 2 },
+            v: {
+                type: "array",
+                items: { type: "object", propertyNames: { type: "string" }, additionalProperties: { type: "number" } },
+            },
+        },
+        required: ["x", "w", "v"],
+    });
+
+    expect(toJsonSchema(strict({ x: { y: oneOf(1, allOf(number(), integer())) } }))).toEqual({
+        type: "object",
+        properties: {
+            x: {
+                type: "object",
+                properties: { y: { oneOf: [{ const: 1 }, { allOf: [{ type: "number" }, { type: "integer" }] }] } },
+                required: ["y"],
+                additionalProperties: false,
+            },
+        },
+        required: ["x"],
+        additionalProperties: false,
+    });
+
+    expect(toJsonSchema(struct({ x: maybe(string()) }))).toEqual({
+        type: "object",
+        properties: { x: { type: "string" } },
+    });
+    expect(toJsonSchema(array(string(), { minItems: 1, unique: true }))).toStrictEqual({
+        type: "array",
+        items: { type: "string" },
+        minItems: 1,
+        uniqueItems: true,
+    });
+    expect(toJsonSchema(array(string(), { unique: x => x.toLowerCase() }))).toStrictEqual({
+        type: "array",
+        items: { type: "string" },
+    });
+});
+
+test("toJsonSchema tuple", () => {
+    expect(toJsonSchema(tuple([string(), maybe(number())], rest(boolean())))).toEqual({
+        type: "array",
+        prefixItems: [{ type: "string" }, { type: "number" }],
+        items: { type: "boolean" },
+        minItems: 1,
+    });
+    expect(toJsonSchema(tuple([maybe(number())]))).toStrictEqual({
+        type: "array",
+        prefixItems: [{ type: "number" }],
+        items: false,
+    });
+});
+
+test("toJsonSchema nullable", () =>
+    expect(
+        toJsonSchema({ a: nullable(string()), b: nullish(number(), 0), c: maybe(array(string()), () => []) }),
+    ).toEqual({
+        type: "object",
+        properties: {
+            a: { anyOf: [{ type: "string" }, { type: "null" }] },
+            b: { anyOf: [{ type: "number" }, { type: "null" }], default: 0 },
+            c: { type: "array", items: { type: "string" }, default: [] },
+        },
+        required: ["a"],
+    }));
+
+test("toJsonSchema taggedUnion", () =>
+    expect(toJsonSchema(taggedUnion("type", { a: { x: number() }, b: {} }))).toEqual({
+        oneOf: [
+            {
+                type: "object",
+                properties: { type: { const: "a" }, x: { type: "number" } },
+                required: ["type", "x"],
+            },
+            { type: "object", properties: { type: { const: "b" } }, required: ["type"] },
+        ],
+        discriminator: { propertyName: "type" },
+    }));
+
+test("toJsonSchema fallback", () => {
+    expect(toJsonSchema(map(integer(), x => new Date(x)))).toEqual({
+        type: "integer",
+        $comment: "transformed by a custom function",
+    });
+    expect(toJsonSchema(filter(string(), x => x.length > 2))).toEqual({
+        type: "string",
+        $comment: "refined by a custom predicate",
+    });
+    expect(toJsonSchema(preprocess(String, string()))).toEqual({
+        type: "string",
+        $comment: "preprocessed by a custom function",
+    });
+    expect(toJsonSchema({ x: (x: any) => +x })).toEqual({
+        type: "object",
+        properties: { x: { $comment: "custom validator" } },
+        required: ["x"],
+    });
+});
+
+test("toJsonSchema lazy", () => {
+    type Tree = { value: number; children: Tree[] };
+    const tree: Validator<Tree> = struct({ value: number(), children: array(lazy(() => tree)) });
+
+    const node = {
+        type: "object",
+        properties: { value: { type: "number" }, children: { type: "array", items: { $ref: "#/$defs/lazy0" } } },
+        required: ["value", "children"],
+    };
+
+    expect(toJsonSchema(tree)).toEqual({ ...node, $defs: { lazy0: node } });
+});
+
+test("fromJsonSchema primitives", () => {
+    validates(fromJsonSchema({ type: "string", pattern: "^[a-z]+$" }), ["a", "abc"], ["", "A", 0, null]);
+    validates(
+        fromJsonSchema({ type: ["integer", "null"], minimum: 1, exclusiveMaximum: 10 }),
+        [1, 9, null],
+        [0, 10, 1.5],
+    );
+    validates(fromJsonSchema({ multipleOf: 3 }), [0, 3, -9, "a", null], [1, 4.5]);
+    validates(fromJsonSchema({ type: "string", minLength: 1, maxLength: 2 }), ["a", "ab"], ["", "abc"]);
+    validates(fromJsonSchema({ minItems: 1, maxItems: 2 }), [[0], [0, 1], "", {}], [[], [0, 1, 2]]);
+    validates(fromJsonSchema({ enum: ["a", 1, { x: [null] }] }), ["a", 1, { x: [null] }], ["b", 2, {}, { x: [] }]);
+    validates(fromJsonSchema({ const: false }), [false], [true, 0, null]);
+    validates(fromJsonSchema(true), [0, "", null, {}], []);
+    validates(fromJsonSchema(false), [], [0, "", null, {}]);
+});
+
+test("fromJsonSchema structures", () => {
+    const validator = fromJsonSchema({
+        type: "object",
+        properties: {
+            name: { type: "string" },
+            tags: { type: "array", items: { type: "string" } },
+            point: { type: "array", prefixItems: [{ type: "number" }, { type: "number" }], items: false },
+            extra: { type: "object", additionalProperties: { type: "boolean" } },
+        },
+        required: ["name", "id"],
+        additionalProperties: false,
+    });
+
+    validates(
+        validator,
+        [
+            { name: "", id: 0 },
+            { name: "a", id: null, tags: ["b"], point: [1, 2], extra: { x: true } },
+            { name: "a", id: {}, point: [1] },
+        ],
+        [
+            { name: "" },
+            { id: 0 },
+            { name: "", id: 0, other: 0 },
+            { name: "", id: 0, tags: [0] },
+            { name: "", id: 0, point: [0, 0, 0] },
+            { name: "", id: 0, extra: { x: 0 } },
+            [],
+            null,
+        ],
+    );
+
+    expect(() => validator({ name: "", id: 0, tags: ["", 1] })).toThrowError(
+        expect.objectContaining({ info: { type: "expected", expected: "string", path: [1, "tags"] } }),
+    );
+    expect(() => validator({ name: "", id: 0, more: 1 })).toThrowError(
+        expect.objectContaining({ info: { type: "unknown_key", key: "more", path: ["more"] } }),
+    );
+});
+
+test("fromJsonSchema $ref", () => {
+    const validator = fromJsonSchema({
+        $defs: {
+            node: {
+                type: "object",
+                properties: { value: { type: "number" }, children: { type: "array", items: { $ref: "#/$defs/node" } } },
+                required: ["value"],
+            },
+        },
+        anyOf: [{ $ref: "#/$defs/node" }, { type: "null" }],
+    });
+
+    validates(
+        validator,
+        [null, { value: 0 }, { value: 0, children: [{ value: 1, children: [] }] }],
+        [{}, { value: 0, children: [{}] }],
+    );
+    expect(() => fromJsonSchema({ $ref: "other.json#/a" })).toThrowError();
+    expect(() => fromJsonSchema({ $ref: "#/$defs/missing" })).toThrowError();
+});
+
+test("fromJsonSchema(toJsonSchema)", () =>
+    validates(
+        fromJsonSchema(
+            toJsonSchema(
+                strict({
+                    x: string(/^a/, { maxLength: 2 }),
+                    y: maybe(integer({ min: 0 })),
+                    z: [anyOf("a", null), array(boolean(), { maxItems: 1 })],
+                }),
+            ),
+        ),
+        [
+            { x: "a", z: ["a", []] },
+            { x: "ab", y: 1, z: [null, [true]] },
+        ],
+        [
+            { x: "b", z: ["a", []] },
+            { x: "abc", z: ["a", []] },
+            { x: "a", y: 0.5, z: ["a", []] },
+            { x: "a", y: -1, z: ["a", []] },
+            { x: "a", z: ["b", []] },
+            { x: "a", z: ["a", [true, false]] },
+            { x: "a", z: ["a", []], w: 0 },
+        ],
+    ));
@@ -1,5 +1,19 @@
-import { test } from "vitest";
-import { number, boolean, integer, struct, string, any, never } from "../src/index";
+import { expect, test } from "vitest";
+import {
+    number,
+    boolean,
+    integer,
+    struct,
+    string,
+    any,
+    never,
+    safeValidate,
+    date,
+    bigint,
+    symbol,
+    instanceOf,
+    typedArray,
+} from "../src/index";
 import { validates } from "./util";
 
 test("boolean", () =>
@@ -54,6 +68,38 @@ test("string regex", () =>
         [" ", "", "_", "a-z0-9", 0.5, 0, NaN, Infinity, -Infinity, true, false, null, undefined, {}, [], [{}]],
     ));
 
+test("number bounds", () => {
+    validates(number({ min: 0, max: 1 }), [0, 0.5, 1], [-0.1, 1.1, NaN]);
+    validates(number({ exclusiveMin: 0, exclusiveMax: 1 }), [0.5, Number.MIN_VALUE], [0, 1]);
+    validates(number({ multipleOf: 0.1 }), [0, 0.3, -0.7, 1e20], [0.15, 1e-3]);
+    validates(integer({ min: 1, multipleOf: 2 }), [2, 4, 1e6], [0, -2, 3, 2.5]);
+
+    expect(safeValidate(-1, number({ min: 0 }))).toEqual({
+        ok: false,
+        error: { type: "too_small", subject: "number", min: 0, actual: -1, exclusive: false, path: [] },
+    });
+    expect(safeValidate(1, number({ exclusiveMax: 1 }))).toEqual({
+        ok: false,
+        error: { type: "too_big", subject: "number", max: 1, actual: 1, exclusive: true, path: [] },
+    });
+    expect(safeValidate(5, integer({ multipleOf: 2 }))).toEqual({
+        ok: false,
+        error: { type: "not_multiple", multipleOf: 2, actual: 5, path: [] },
+    });
+    for (const multipleOf of [0, -1, NaN, Infinity])
+        expect(() => number({ multipleOf })).toThrowError("multipleOf must be a positive finite number");
+    expect(() => integer({ multipleOf: 0 })).toThrowError("multipleOf must be a positive finite number");
+});
+
+test("string bounds", () => {
+    validates(string({ minLength: 1, maxLength: 3 }), ["a", "abc"], ["", "abcd", 1]);
+    validates(string(/^[a-z]*$/, { maxLength: 2 }), ["", "ab"], ["abc", "A"]);
+    expect(safeValidate("", string({ minLength: 1 }))).toEqual({
+        ok: false,
+        error: { type: "too_small", subject: "string", min: 1, actual: 0, exclusive: false, path: [] },
+    });
+});
+
 test("null", () =>
     validates<null>(
         struct(null),
@@ -88,3 +134,34 @@ test("never", () =>
         [],
         [0.5, 0, NaN, Infinity, -Infinity, true, false, null, undefined, "", "1", "0", {}, [], [{}]],
     ));
+
+test("date", () => {
+    validates(date(), [new Date(), new Date(0)], [new Date(""), new Date(NaN), 0, "2001-09-09", null]);
+    expect(safeValidate(new Date("x"), date())).toMatchObject({ error: { expected: "valid Date" } });
+});
+
+test("bigint", () => {
+    expect(bigint()(0n)).toBe(0n);
+    expect(bigint()(-(2n ** 64n))).toBe(-(2n ** 64n));
+    validates(bigint(), [], [0, "0", null, undefined, {}]);
+});
+
+test("symbol", () => validates(symbol(), [Symbol(), Symbol.iterator], ["symbol", 0, null, {}]));
+
+test("instanceOf", () => {
+    class A {}
+    class B extends A {}
+    validates(instanceOf(A), [new A(), new B()], [{}, null, A]);
+    validates(instanceOf(Error), [new TypeError()], [{ message: "" }]);
+    expect(safeValidate({}, instanceOf(B))).toMatchObject({ error: { expected: "instance of B" } });
+});
+
+test("typedArray", () => {
+    validates(
+        typedArray(),
+        [new Uint8Array(2), new Float64Array(), new BigInt64Array()],
+        [[], new DataView(new ArrayBuffer(1)), new ArrayBuffer(1)],
+    );
+    validates(typedArray(Uint8Array), [new Uint8Array([1, 2])], [new Int8Array(), new Uint8ClampedArray(), [1, 2]]);
+    expect(safeValidate([], typedArray(Uint8Array))).toMatchObject({ error: { expected: "Uint8Array" } });
+});
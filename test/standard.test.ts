@@ -0,0 +1,63 @@
+import { expect, test } from "vitest";
+import { anyOf, array, definition, integer, map, number, string, type Validator } from "../src/index";
+import { standard, type InferOutput, type StandardSchemaV1 } from "../src/standard";
+
+// what a library that accepts Standard Schemas would do
+const parse = <T extends StandardSchemaV1>(schema: T, x: unknown) => schema["~standard"].validate(x);
+
+test("standard", () => {
+    const user = standard({ name: string(), age: integer(), tags: array(string()) });
+
+    expect(user["~standard"]).toMatchObject({ version: 1, vendor: "picostruct" });
+    expect(parse(user, { name: "a", age: 1, tags: [] })).toEqual({ value: { name: "a", age: 1, tags: [] } });
+    expect(parse(user, { name: 0, age: 1.5, tags: ["a", 0] })).toEqual({
+        issues: [
+            { message: "expected string", path: ["name"] },
+            { message: "expected integer", path: ["age"] },
+            { message: "expected string", path: ["tags", 1] },
+        ],
+    });
+
+    expect(user({ name: "a", age: 1, tags: [] })).toEqual({ name: "a", age: 1, tags: [] });
+    expect(() => user({})).toThrowError();
+    expect(definition(user)).toMatchObject({ kind: "struct" });
+});
+
+test("standard options", () => {
+    const point = standard(
+        { x: number(), y: number() },
+        { all: false, unknown: "strict" },
+        {
+            expected: e => `attendu ${e.expected}`,
+        },
+    );
+
+    expect(parse(point, { x: "", y: "", z: 0 })).toEqual({
+        issues: [{ message: "attendu finite number", path: ["x"] }],
+    });
+    expect(parse(point, { x: 0, y: 0, z: 0 })).toEqual({ issues: [{ message: "unknown key", path: ["z"] }] });
+});
+
+test("standard nested errors", () => {
+    const id = standard(anyOf(integer(), string(/^\d+$/)));
+    expect(parse(id, "a")).toEqual({
+        issues: [
+            {
+                message: [
+                    "none of the alternatives matched",
+                    "  expected integer",
+                    "  expected string matching /^\\d+$/",
+                ].join("\n"),
+                path: [],
+            },
+        ],
+    });
+
+    const timestamp = standard({ at: map(number(), x => new Date(x)) });
+    const result = parse(timestamp, { at: 0 });
+    const value: InferOutput<typeof timestamp> | undefined = "value" in result ? result.value : undefined;
+    expect(value?.at).toEqual(new Date(0));
+
+    const validator: Validator<{ at: Date }> = timestamp;
+    expect(validator({ at: 1 })).toEqual({ at: new Date(1) });
+});
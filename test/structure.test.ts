@@ -1,4 +1,4 @@
-import { test } from "vitest";
+import { expect, test } from "vitest";
 import {
     number,
     boolean,
@@ -14,7 +14,37 @@ import {
     filter,
     map,
     integer,
+    validate,
+    strict,
+    strip,
+    lazy,
+    taggedUnion,
+    safeValidate,
+    mapOf,
+    setOf,
+    tuple,
+    rest,
+    partial,
+    required,
+    pick,
+    omit,
+    nullable,
+    nullish,
+    preprocess,
+    brand,
+    unbrand,
+    extend,
+    deepPartial,
+    definition,
+    accepts,
+    annotate,
+    catchError,
+    isOptional,
+    type Input,
+    type Result,
+    type Validator,
 } from "../src/index";
+import { compile } from "../src/compile";
 import { transforms, validates } from "./util";
 
 test("struct({ x: string })", () =>
@@ -140,6 +170,52 @@ test("struct(complex)", () =>
         ],
     ));
 
+test("mapOf(string, number)", () => {
+    validates(
+        mapOf(string(), number()),
+        [new Map(), new Map([["a", 1]])],
+        [{}, [], new Map([[0, 1]]), new Map([["a", "1"]]), new Set(), null],
+    );
+
+    const key = { id: 0 };
+    expect(
+        safeValidate(
+            new Map<any, any>([
+                ["a", 1],
+                [key, "2"],
+            ]),
+            mapOf(any(), number()),
+        ),
+    ).toMatchObject({
+        error: { type: "expected", path: [1] },
+    });
+    expect(safeValidate({ x: new Map([[5, 0]]) }, { x: mapOf(string(), number()) })).toMatchObject({
+        error: { type: "key", path: [5, "x"], error: { type: "expected", expected: "string" } },
+    });
+
+    const double = mapOf(
+        map(string(), x => x + x),
+        number(),
+    );
+    const input = new Map([["a", 1]]);
+    const output = double(input);
+    expect(output).not.toBe(input);
+    expect([...output]).toEqual([["aa", 1]]);
+    expect([...input]).toEqual([["a", 1]]);
+});
+
+test("setOf(number)", () => {
+    validates(setOf(number()), [new Set(), new Set([1, 2])], [[1], new Map(), new Set(["1"]), null]);
+    expect(safeValidate(new Set([1, "2", 3]), setOf(number()))).toMatchObject({ error: { path: [1] } });
+    expect(safeValidate(new Set([1, "2", "3"]), setOf(number()), { all: true })).toMatchObject({
+        error: { type: "multiple", errors: [{ path: [1] }, { path: [2] }] },
+    });
+
+    const input = new Set(["a", "b"]);
+    expect([...setOf(map(string(), x => x.toUpperCase()))(input)]).toEqual(["A", "B"]);
+    expect([...input]).toEqual(["a", "b"]);
+});
+
 test("array(any)", () =>
     validates<any[]>(array(any()), [[], [true], [[]], [{}, {}, []], new Array(10)], [null, {}, true, undefined]));
 
@@ -150,6 +226,74 @@ test("array(string)", () =>
         [[0, 1, 2, 3], [null, undefined], [[]], new Array(10)],
     ));
 
+test("array bounds", () => {
+    validates(array(number(), { minItems: 1, maxItems: 2 }), [[0], [0, 1]], [[], [0, 1, 2], [NaN]]);
+    validates(
+        array(any(), { unique: true }),
+        [[], [1, "1", NaN], [{}, {}]],
+        [
+            [1, 1],
+            [NaN, NaN],
+            [0, -0],
+        ],
+    );
+    validates(
+        array({ id: number() }, { unique: x => x.id }),
+        [[{ id: 0 }, { id: 1 }]],
+        [[{ id: 0 }, { id: 1 }, { id: 0 }]],
+    );
+
+    expect(safeValidate([0, 1, 2], array(string(), { maxItems: 2 }))).toEqual({
+        ok: false,
+        error: { type: "too_big", subject: "array", max: 2, actual: 3, exclusive: false, path: [] },
+    });
+    expect(safeValidate({ x: ["a", "b", "a"] }, { x: array(string(), { unique: true }) })).toEqual({
+        ok: false,
+        error: { type: "duplicate", index: 0, path: [2, "x"] },
+    });
+});
+
+test("tuple", () => {
+    validates<[string, number]>(tuple([string(), number()]), [["a", 0]], [[], ["a"], ["a", 0, 0], [0, "a"], {}]);
+    validates<[string, ...number[]]>(tuple([string()], rest(number())), [["a"], ["a", 0, 1]], [[], ["a", "b"], [0]]);
+    validates<[string, number?, ...string[]]>(
+        tuple([string(), maybe(number())], rest(string())),
+        [["a"], ["a", 0], ["a", 0, "b", "c"]],
+        [[], ["a", "b"], ["a", 0, 1]],
+    );
+    validates<[]>(tuple([]), [[]], [[0]]);
+
+    // trailing optional elements are optional tuple members, both in the input and in the result
+    const command = tuple([string(), maybe(number())], rest(string()));
+    const move = tuple([string(), maybe(number()), maybe(string())]);
+    const input: Input<typeof command> = ["ls"];
+    const result: Result<typeof move> = ["mv"];
+    expect([validate(input, command), validate(result, move)]).toEqual([["ls"], ["mv"]]);
+
+    expect(safeValidate([], tuple([string(), maybe(number())]))).toEqual({
+        ok: false,
+        error: { type: "expected", expected: "array[1..2]", path: [] },
+    });
+    expect(safeValidate([], tuple([string()], rest(number())))).toEqual({
+        ok: false,
+        error: { type: "expected", expected: "array[1..]", path: [] },
+    });
+    expect(safeValidate([0, 1], tuple([number()]))).toEqual({
+        ok: false,
+        error: { type: "expected", expected: "array[1]", path: [] },
+    });
+    expect(safeValidate({ x: ["a", 0, "b", 1] }, { x: tuple([string()], rest(anyOf(number(), "b"))) })).toEqual({
+        ok: true,
+        value: { x: ["a", 0, "b", 1] },
+    });
+    expect(safeValidate(["a", 0, 1], tuple([string()], rest(string())), { all: true })).toMatchObject({
+        error: { type: "multiple", errors: [{ path: [1] }, { path: [2] }] },
+    });
+
+    const padded = tuple([number(), maybe(number(), 0)]);
+    expect(padded([1])).toEqual([1, 0]);
+});
+
 test("record(any, any)", () =>
     validates<Record<string | number | symbol, any>>(
         record(any(), any()),
@@ -186,6 +330,47 @@ test("maybe(string, 'default')", () =>
         [null, false, true, NaN, 1, 0, [], {}, [{}]],
     ));
 
+test("maybe with a factory default", () => {
+    const tags = maybe(array(string()), () => []);
+    const a = tags(undefined);
+    const b = tags(undefined);
+    expect(a).toEqual([]);
+    expect(a).not.toBe(b);
+    expect(tags(["x"])).toEqual(["x"]);
+    expect(validate({}, { tags })).toEqual({ tags: [] });
+});
+
+test("nullable and nullish", () => {
+    validates(nullable(string()), ["", null], [undefined, 0]);
+    validates(nullish(string()), ["", null, undefined], [0, false]);
+    transforms(
+        nullish(array(number()), () => []),
+        [
+            [null, []],
+            [undefined, []],
+            [[1], [1]],
+        ],
+        [0, [""]],
+    );
+    transforms(nullable(number(), 0), [[null, 0]], [undefined]);
+
+    const row = struct({ id: integer(), deletedAt: nullish(number()), note: nullable(string()) });
+    expect(row({ id: 1, note: null })).toEqual({ id: 1, note: null });
+    expect(() => row({ id: 1 })).toThrowError();
+    expect(tuple([string(), nullish(number())])(["a"])).toEqual(["a"]);
+});
+
+test("preprocess", () => {
+    const trim = (x: unknown) => (typeof x === "string" ? x.trim().toLowerCase() : x);
+    const email = preprocess(trim, string({ minLength: 1 }));
+    transforms(email, [[" A@B.C ", "a@b.c"]], ["  ", 0]);
+
+    const note = preprocess((x: unknown) => (x === null ? undefined : x), maybe(string(), ""));
+    expect(validate({ note: null }, { note })).toEqual({ note: "" });
+    expect(definition(note)).toMatchObject({ kind: "preprocess", schema: expect.any(Function) });
+    expect(compile({ email })({ email: " X " })).toEqual({ email: "x" });
+});
+
 test("anyOf(['string', string], ['number', number], ['boolean', boolean])", () =>
     validates<["string", string] | ["number", number] | ["boolean", boolean]>(
         anyOf(["string", string()], ["number", number()], ["boolean", boolean()]),
@@ -273,3 +458,303 @@ test("map", () =>
             [{}],
         ],
     ));
+
+test("copy-on-write", () => {
+    const schema = {
+        id: map(integer(), x => String(x)),
+        tags: array(string()),
+        points: array([number(), map(number(), x => -x)]),
+    };
+
+    const input = Object.freeze({
+        id: 1,
+        tags: Object.freeze(["a", "b"]),
+        points: Object.freeze([Object.freeze([0, 1]), Object.freeze([2, 0])]),
+    });
+
+    const output = validate(input, schema, { copy: true });
+    expect(output).toEqual({
+        id: "1",
+        tags: ["a", "b"],
+        points: [
+            [0, -1],
+            [2, -0],
+        ],
+    });
+    expect(input).toEqual({
+        id: 1,
+        tags: ["a", "b"],
+        points: [
+            [0, 1],
+            [2, 0],
+        ],
+    });
+    expect(output).not.toBe(input);
+    expect(output.tags).toBe(input.tags);
+    expect(output.points[0]).not.toBe(input.points[0]);
+
+    const untouched = Object.freeze({ id: "x", tags: Object.freeze([]) });
+    expect(validate(untouched, { id: string(), tags: array(string()) }, { copy: true })).toBe(untouched);
+    expect(() => validate(input, schema)).toThrowError(TypeError);
+
+    expect(Object.keys(validate({}, { a: maybe(number()) }))).toEqual(["a"]);
+    expect(Object.keys(validate({}, { a: maybe(number()) }, { copy: true }))).toEqual([]);
+});
+
+test("strict({ x: string, y: { z: number } })", () => {
+    validates<any>(
+        strict({ x: string(), y: { z: number() } }),
+        [
+            { x: "", y: { z: 0 } },
+            { x: "a", y: { z: 1 } },
+        ],
+        [{ x: "", y: { z: 0 }, w: 0 }, { x: "", y: { z: 0, w: 0 } }, { x: "" }],
+    );
+
+    expect(() => strict({ x: { y: string() } })({ x: { y: "", z: 0 } })).toThrowError(
+        expect.objectContaining({ info: { type: "unknown_key", key: "z", path: ["z", "x"] } }),
+    );
+});
+
+test("strip({ x: string, y: { z: number } })", () => {
+    transforms<any>(
+        strip({ x: string(), y: { z: number() }, w: [{ v: number() }] }),
+        [
+            [
+                { x: "", y: { z: 0 }, w: [{ v: 1 }] },
+                { x: "", y: { z: 0 }, w: [{ v: 1 }] },
+            ],
+            [
+                { x: "", y: { z: 0, a: 1 }, b: 2, w: [{ v: 1, c: 3 }] },
+                { x: "", y: { z: 0 }, w: [{ v: 1 }] },
+            ],
+        ],
+        [
+            { x: "", y: { z: "" }, w: [{ v: 1 }] },
+            { x: "", w: [{ v: 1 }] },
+        ],
+    );
+
+    const input = Object.freeze({ x: "", y: 0 });
+    expect(validate(input, { x: string() }, { unknown: "strip", copy: true })).toEqual({ x: "" });
+    expect(input).toEqual({ x: "", y: 0 });
+
+    const union = anyOf({ a: number(), c: string() }, { a: number(), b: number() });
+    for (const validator of [union, compile(union), compile(union, false)]) {
+        const value = { a: 1, b: 2 };
+        expect(validate(value, validator, { all: true, unknown: "strip" })).toEqual({ a: 1, b: 2 });
+        expect(value).toEqual({ a: 1, b: 2 });
+    }
+
+    // nested objects that pass before the alternative fails keep their keys for the next alternatives
+    const alternatives = [
+        { inner: { a: string() }, tag: "x" },
+        { inner: { a: string(), extra: number() }, tag: "y" },
+    ];
+    const nested = anyOf(...alternatives);
+    for (const validator of [nested, oneOf(...alternatives), compile(nested)]) {
+        const value = { inner: { a: "s", extra: 1 }, tag: "y" };
+        expect(validate(value, validator, { unknown: "strip" })).toEqual({ inner: { a: "s", extra: 1 }, tag: "y" });
+        expect(value).toEqual({ inner: { a: "s", extra: 1 }, tag: "y" });
+    }
+});
+
+test("lazy", () => {
+    type Tree = { name: string; children: Tree[] };
+    const tree: Validator<Tree> = struct({ name: string(), children: array(lazy(() => tree)) });
+
+    validates<Tree>(
+        tree,
+        [
+            { name: "", children: [] },
+            { name: "a", children: [{ name: "b", children: [{ name: "c", children: [] }] }] },
+        ],
+        [
+            { name: "" },
+            { name: "a", children: [{ name: "b" }] },
+            { name: "a", children: [{ name: "b", children: [0] }] },
+        ],
+    );
+
+    const cyclic: any = { name: "a", children: [] };
+    cyclic.children.push({ name: "b", children: [cyclic] });
+    expect(() => tree(cyclic)).toThrowError(
+        expect.objectContaining({ info: { type: "cycle", path: [0, "children", 0, "children", 0, "children"] } }),
+    );
+
+    const shared = { name: "b", children: [] };
+    expect(() => tree({ name: "a", children: [shared, shared] })).not.toThrowError();
+});
+
+test("lazy mutual recursion", () => {
+    type Post = { text: string; comments: Comment[] };
+    type Comment = { text: string; post: Post | null };
+    const post: Validator<Post> = struct({ text: string(), comments: array(lazy(() => comment)) });
+    const comment: Validator<Comment> = struct({
+        text: string(),
+        post: anyOf(
+            null,
+            lazy(() => post),
+        ),
+    });
+
+    validates<Post>(
+        post,
+        [
+            { text: "", comments: [] },
+            { text: "", comments: [{ text: "", post: null }] },
+            { text: "", comments: [{ text: "", post: { text: "", comments: [] } }] },
+        ],
+        [
+            { text: "", comments: [{ text: "" }] },
+            { text: "", comments: [{ text: "", post: { text: "" } }] },
+        ],
+    );
+});
+
+test("taggedUnion", () => {
+    const payment = taggedUnion("type", {
+        paypal: { email: string() },
+        card: { number: string(), cvc: string() },
+        cash: struct({ type: "cash" }),
+    });
+
+    validates<any>(
+        payment,
+        [{ type: "paypal", email: "" }, { type: "card", number: "", cvc: "" }, { type: "cash" }],
+        [
+            { type: "paypal", number: "", cvc: "" },
+            { type: "card", email: "" },
+            { type: "check" },
+            { type: "toString" },
+            { email: "" },
+            ["paypal"],
+            null,
+        ],
+    );
+
+    expect(() => payment({ type: "wire" })).toThrowError(
+        expect.objectContaining({
+            info: { type: "unknown_tag", tag: "wire", tags: ["paypal", "card", "cash"], path: ["type"] },
+        }),
+    );
+    expect(() => payment({ type: "card", number: "" })).toThrowError(
+        expect.objectContaining({ info: { type: "expected", expected: "string", path: ["cvc"] } }),
+    );
+    expect(() => strict(payment)({ type: "paypal", email: "", cvc: "" })).toThrowError(
+        expect.objectContaining({ info: { type: "unknown_key", key: "cvc", path: ["cvc"] } }),
+    );
+});
+
+test("partial and required", () => {
+    const user = { name: string(), age: maybe(integer(), 18), address: { city: string() } };
+
+    validates(struct(partial(user)), [{}, { name: "a" }, { address: { city: "b" } }], [{ name: 0 }, { address: {} }]);
+    expect(partial(user).age).toBe(user.age);
+    validates(
+        struct(required(partial(user))),
+        [{ name: "a", age: 1, address: { city: "b" } }],
+        [{ name: "a", address: { city: "b" } }, {}],
+    );
+
+    const patch = partial(strict(user));
+    expect(definition(patch)).toMatchObject({ kind: "struct", options: { unknown: "strict" } });
+    validates(patch, [{}, { name: "a" }], [{ other: 0 }]);
+
+    const row = required({ deletedAt: nullish(number()), tags: nullish(array(string()), () => []) });
+    validates(struct(row), [{ deletedAt: null, tags: null }], [{ tags: null }, { deletedAt: 0 }]);
+    expect(row.tags(null)).toEqual([]);
+
+    const described = required({
+        a: annotate(maybe(string()), { description: "A" }),
+        b: brand(nullish(number()), "B"),
+    });
+    validates(struct(described), [{ a: "", b: null }], [{}, { a: "" }, { b: 0 }]);
+    expect(definition(described.a)).toMatchObject({ kind: "annotate", annotation: { description: "A" } });
+    expect(definition(described.b)).toMatchObject({ kind: "brand", schema: expect.any(Function) });
+    const name = annotate(string(), {});
+    expect(required({ name }).name).toBe(name);
+});
+
+test("isOptional", () => {
+    type List = { next: List | undefined };
+    const list: Validator<List> = lazy(() => ({ next: anyOf(undefined, list) }));
+
+    for (const schema of [undefined, maybe(string()), nullish(number()), any(), catchError(number(), 0)])
+        expect(isOptional(schema)).toBe(true);
+    for (const schema of [annotate(maybe(string()), {}), anyOf(number(), undefined), nullable(maybe(string()))])
+        expect(isOptional(schema)).toBe(true);
+    for (const schema of [null, string(), nullable(string()), (x: unknown) => x, allOf(maybe(string()), string())])
+        expect(isOptional(schema)).toBe(false);
+    expect(isOptional(list)).toBe(false);
+
+    const point = tuple([number(), annotate(maybe(number()), { description: "z" })]);
+    expect(point([0])).toEqual([0]);
+    const id = brand(maybe(string()), "Id");
+    expect(partial({ id }).id).toBe(id);
+});
+
+test("pick and omit", () => {
+    const user = strict({ name: string(), email: string(), password: string() });
+
+    validates(
+        pick(user, ["email", "password"]),
+        [{ email: "", password: "" }],
+        [{ email: "" }, { email: "", password: "", name: "" }],
+    );
+    validates(omit(user, ["password"]), [{ name: "", email: "" }], [{ name: "", email: "", password: "" }]);
+    expect(Object.keys(omit({ a: 1, b: 2, c: 3 }, ["a", "c"]))).toEqual(["b"]);
+    expect(Object.keys(pick({ a: 1, b: 2, c: 3 }, ["c", "a"]))).toEqual(["c", "a"]);
+});
+
+test("extend", () => {
+    const base = strip({ id: integer(), name: string() });
+    const extended = extend(base, struct({ name: maybe(string()), email: string() }));
+
+    expect(extended({ id: 0, email: "", other: 0 })).toEqual({ id: 0, email: "" });
+    validates(extended, [], [{ id: 0 }, { id: "0", email: "" }]);
+    expect(Object.keys(extend({ a: 1, b: 2 }, { b: 3, c: 4 }))).toEqual(["a", "b", "c"]);
+});
+
+test("deepPartial", () => {
+    const order = deepPartial({
+        id: integer(),
+        customer: { name: string(), address: struct({ city: string(), zip: string() }) },
+        items: array({ sku: string() }),
+        note: maybe(string(), ""),
+    });
+
+    validates(
+        struct(order),
+        [{}, { customer: {} }, { customer: { address: { zip: "1" } } }, { items: [] }],
+        [{ customer: { address: { city: 0 } } }, { items: [{}] }, { id: "" }],
+    );
+    expect(validate({}, order)).toEqual({ note: "" });
+});
+
+test("accepts", () => {
+    const parse = (x: string | number) => new Date(x);
+    const timestamp = accepts(parse);
+    expect(timestamp).toBe(parse);
+
+    const input: Input<{ at: typeof timestamp; page: Validator<number, number | undefined> }> = { at: 0 };
+    expect(validate(input, { at: timestamp, page: maybe(integer(), 1) })).toEqual({ at: new Date(0), page: 1 });
+});
+
+test("brand", () => {
+    const userId = brand(string(/^u_\d+$/), "UserId");
+    const positive = brand(brand(integer(), "Integer"), "Positive");
+    const user = struct({ id: userId, friends: array(userId), scores: record(string(), positive) });
+
+    validates(userId, ["u_1"], ["1", 1]);
+    validates(user, [{ id: "u_1", friends: ["u_2"], scores: { a: 1 } }], [{ id: "u_1", friends: ["1"], scores: {} }]);
+    expect(definition(userId)).toMatchObject({ kind: "brand", brand: "UserId" });
+
+    const id = userId("u_1");
+    expect(unbrand(id)).toBe("u_1");
+    expect(compile(user)({ id: "u_1", friends: [], scores: { a: 2 } })).toEqual({
+        id: "u_1",
+        friends: [],
+        scores: { a: 2 },
+    });
+});
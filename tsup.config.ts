@@ -1,9 +1,22 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-    entryPoints: ["src/index.ts"],
+    entryPoints: [
+        "src/index.ts",
+        "src/format.ts",
+        "src/json-schema.ts",
+        "src/compile.ts",
+        "src/async.ts",
+        "src/coerce.ts",
+        "src/string-formats.ts",
+        "src/standard.ts",
+        "src/arbitrary.ts",
+        "src/describe.ts",
+        "src/document.ts",
+    ],
     format: ["cjs", "esm"],
     dts: true,
     outDir: "dist",
     clean: true,
+    splitting: true,
 });